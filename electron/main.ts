@@ -1,7 +1,8 @@
-import { app, BrowserWindow, Menu, shell, ipcMain, dialog } from 'electron';
+import { app, BrowserWindow, Menu, shell, ipcMain, dialog, protocol, net } from 'electron';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 import http from 'http';
+import fs from 'fs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,6 +15,16 @@ const isDev = !app.isPackaged;
 // ── Automation HTTP server ─────────────────────────────────────────────────
 let automationServer: http.Server | null = null;
 
+// Stinger requests wait for the renderer to report whether a clip played
+const AUTOMATION_REPLY_TIMEOUT_MS = 2000;
+type AutomationResult = { success: boolean; error?: string };
+const pendingAutomationReplies = new Map<number, (result: AutomationResult) => void>();
+let nextAutomationRequestId = 1;
+
+ipcMain.on('automation-result', (_event, requestId: number, result: AutomationResult) => {
+  pendingAutomationReplies.get(requestId)?.(result);
+});
+
 function startAutomationServer(port: number): Promise<{ success: boolean; error?: string }> {
   return new Promise((resolve) => {
     if (automationServer) {
@@ -41,11 +52,44 @@ function startAutomationServer(port: number): Promise<{ success: boolean; error?
 
       const url = req.url || '';
       let trigger: string | null = null;
+      let payload: { release?: number; name?: string } | undefined;
 
       if (url.includes('/set-audience'))  trigger = 'setAudience';
       else if (url.includes('/match-start')) trigger = 'matchStart';
       else if (url.includes('/match-end'))   trigger = 'matchEnd';
       else if (url.includes('/post-result')) trigger = 'postResult';
+      else if (url.includes('/unduck'))      trigger = 'unduck';
+      else if (url.includes('/stinger/')) {
+        // /api/stinger/<clip name or pad number>
+        let name: string;
+        try {
+          name = decodeURIComponent(new URL(url, 'http://localhost').pathname.split('/stinger/')[1] ?? '');
+        } catch {
+          res.writeHead(400);
+          res.end('Malformed stinger name');
+          return;
+        }
+        if (name) {
+          trigger = 'stinger';
+          payload = { name };
+        }
+      }
+      else if (url.includes('/duck')) {
+        trigger = 'duck';
+        // Optional ?release=<seconds> auto-releases the duck
+        let release: number;
+        try {
+          release = Number(new URL(url, 'http://localhost').searchParams.get('release') ?? 0);
+        } catch {
+          release = NaN;
+        }
+        if (!isFinite(release) || release < 0) {
+          res.writeHead(400);
+          res.end('release must be a number of seconds');
+          return;
+        }
+        if (release > 0) payload = { release };
+      }
 
       if (!trigger) {
         res.writeHead(404);
@@ -53,9 +97,31 @@ function startAutomationServer(port: number): Promise<{ success: boolean; error?
         return;
       }
 
+      if (trigger === 'stinger') {
+        if (!mainWindow || mainWindow.isDestroyed()) {
+          res.writeHead(503, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: false, trigger, error: 'App window is not open' }));
+          return;
+        }
+        const requestId = nextAutomationRequestId++;
+        const reply = (status: number, result: AutomationResult) => {
+          clearTimeout(timeout);
+          pendingAutomationReplies.delete(requestId);
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ ...result, trigger }));
+        };
+        const timeout = setTimeout(
+          () => reply(503, { success: false, error: 'App did not respond' }),
+          AUTOMATION_REPLY_TIMEOUT_MS
+        );
+        pendingAutomationReplies.set(requestId, result => reply(result.success ? 200 : 404, result));
+        mainWindow.webContents.send('automation-trigger', trigger, payload, requestId);
+        return;
+      }
+
       // Forward trigger event to the renderer process
       if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send('automation-trigger', trigger);
+        mainWindow.webContents.send('automation-trigger', trigger, payload);
       }
 
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -89,6 +155,370 @@ function stopAutomationServer(): Promise<{ success: boolean }> {
   });
 }
 
+// ── Persistent document store ──────────────────────────────────────────────
+// Each document is a JSON file in userData (e.g. analysis-cache.json).
+const STORE_NAME_PATTERN = /^[a-z0-9-]+$/;
+
+function getStorePath(name: string): string {
+  if (!STORE_NAME_PATTERN.test(name)) throw new Error(`Invalid store name: ${name}`);
+  return path.join(app.getPath('userData'), `${name}.json`);
+}
+
+async function loadStoreDocument(name: string): Promise<unknown> {
+  try {
+    const text = await fs.promises.readFile(getStorePath(name), 'utf8');
+    return JSON.parse(text);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Failed to read store "${name}":`, err);
+    }
+    return null;
+  }
+}
+
+// Writes to the same document are chained so they never interleave
+const pendingStoreWrites = new Map<string, Promise<void>>();
+
+function saveStoreDocument(name: string, data: unknown): Promise<void> {
+  const filePath = getStorePath(name);
+  const previous = pendingStoreWrites.get(name) ?? Promise.resolve();
+  const write = previous.then(async () => {
+    // Write to a temp file first so a crash mid-write never corrupts the store
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(data), 'utf8');
+    await fs.promises.rename(tmpPath, filePath);
+  });
+  pendingStoreWrites.set(name, write.catch(() => undefined));
+  return write;
+}
+
+ipcMain.handle('load-store', (_event, name: string) => loadStoreDocument(name));
+ipcMain.handle('save-store', (_event, name: string, data: unknown) => saveStoreDocument(name, data));
+
+// ── Program recordings ─────────────────────────────────────────────────────
+// The renderer streams recorder chunks here as they arrive; they are appended
+// to a file in the folder the user picked, so a crash loses seconds, not the set.
+// Only the folder picked through the dialog is written to; the renderer names
+// the file but never the folder.
+const RECORDING_NAME_PATTERN = /^[\w.-]+$/;
+const RECORDING_FOLDER_DOCUMENT = 'recording-folder';
+
+let recordingFolder: Promise<string | null> | null = null;
+
+function getRecordingFolder(): Promise<string | null> {
+  if (!recordingFolder) {
+    recordingFolder = loadStoreDocument(RECORDING_FOLDER_DOCUMENT).then(saved =>
+      typeof saved === 'string' && path.isAbsolute(saved) ? saved : null
+    );
+  }
+  return recordingFolder;
+}
+
+async function getRecordingPath(fileName: string): Promise<string> {
+  if (!RECORDING_NAME_PATTERN.test(fileName) || fileName.includes('..')) {
+    throw new Error(`Invalid recording file name: ${fileName}`);
+  }
+  const folder = await getRecordingFolder();
+  if (!folder) throw new Error('No recording folder chosen');
+  return path.join(folder, fileName);
+}
+
+// Writes to the same file are chained so chunks land in order
+const pendingRecordingWrites = new Map<string, Promise<void>>();
+
+async function writeRecordingFile(fileName: string, data: Uint8Array | string, append: boolean): Promise<void> {
+  const filePath = await getRecordingPath(fileName);
+  const previous = pendingRecordingWrites.get(filePath) ?? Promise.resolve();
+  const write = previous.then(() =>
+    append ? fs.promises.appendFile(filePath, data) : fs.promises.writeFile(filePath, data)
+  );
+  pendingRecordingWrites.set(filePath, write.catch(() => undefined));
+  return write;
+}
+
+ipcMain.handle('choose-recording-folder', async () => {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Choose Recording Folder',
+    properties: ['openDirectory', 'createDirectory'],
+  };
+  const result = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  const folder = result.canceled ? null : result.filePaths[0] ?? null;
+  if (folder) {
+    recordingFolder = Promise.resolve(folder);
+    await saveStoreDocument(RECORDING_FOLDER_DOCUMENT, folder);
+  }
+  return folder;
+});
+ipcMain.handle('get-recording-folder', () => getRecordingFolder());
+ipcMain.handle('append-recording', (_event, fileName: string, data: Uint8Array) =>
+  writeRecordingFile(fileName, data, true)
+);
+ipcMain.handle('write-recording', (_event, fileName: string, text: string) =>
+  writeRecordingFile(fileName, text, false)
+);
+
+// ── Music library roots ────────────────────────────────────────────────────
+// The renderer keeps the library as paths instead of a picked FileList, so it
+// can be reloaded on startup. Files are listed here and read through the
+// autodj-media:// protocol, which only serves files under a scanned root.
+const MEDIA_SCHEME = 'autodj-media';
+
+const AUDIO_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.webm': 'audio/webm',
+};
+
+interface LibraryFileEntry {
+  path: string;          // absolute
+  relativePath: string;  // "<root folder>/<sub folders>/<file>", like webkitRelativePath
+  size: number;
+  lastModified: number;
+  type: string;
+}
+
+// Scanned roots with the audio files known under each, keyed by relativePath
+const libraryRoots = new Map<string, Map<string, LibraryFileEntry>>();
+
+// The sound effects folder is served too, but kept apart from the music
+// library: it is not watched, and clearing the library leaves it alone
+let stingerFolder: string | null = null;
+
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: MEDIA_SCHEME,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true, corsEnabled: true },
+  },
+]);
+
+// Lists the audio files under dir; relativeDir is dir's webkitRelativePath-style path
+async function listAudioFiles(dir: string, relativeDir: string): Promise<LibraryFileEntry[]> {
+  const entries: LibraryFileEntry[] = [];
+  let items: fs.Dirent[];
+  try {
+    items = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (err) {
+    console.warn(`Failed to read ${dir}:`, err);
+    return entries;
+  }
+  for (const item of items) {
+    if (item.name.startsWith('.')) continue;
+    const fullPath = path.join(dir, item.name);
+    const relativePath = `${relativeDir}/${item.name}`;
+    if (item.isDirectory()) {
+      entries.push(...await listAudioFiles(fullPath, relativePath));
+      continue;
+    }
+    if (!item.isFile()) continue;
+    const entry = await readAudioFileEntry(fullPath, relativePath);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+async function readAudioFileEntry(fullPath: string, relativePath: string): Promise<LibraryFileEntry | null> {
+  const type = AUDIO_TYPES[path.extname(fullPath).toLowerCase()];
+  if (!type) return null;
+  try {
+    const stat = await fs.promises.stat(fullPath);
+    return { path: fullPath, relativePath, size: stat.size, lastModified: stat.mtimeMs, type };
+  } catch {
+    // Removed in the meantime
+    return null;
+  }
+}
+
+async function scanLibraryRoot(root: string): Promise<LibraryFileEntry[] | null> {
+  try {
+    if (!(await fs.promises.stat(root)).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+
+  const entries = await listAudioFiles(root, path.basename(root));
+  libraryRoots.set(root, new Map(entries.map(entry => [entry.relativePath, entry])));
+  watchLibraryRoot(root);
+  return entries;
+}
+
+// Replaces the served sound effects folder
+async function scanStingerFolder(root: string): Promise<LibraryFileEntry[] | null> {
+  try {
+    if (!(await fs.promises.stat(root)).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+
+  stingerFolder = root;
+  return listAudioFiles(root, path.basename(root));
+}
+
+// ── Library folder watching ────────────────────────────────────────────────
+// Changes under a root are collected until it has been quiet for a moment
+// (copying a folder from a USB stick fires many events), then compared with
+// the known files and sent to the renderer as added / removed / renamed.
+const WATCH_DEBOUNCE_MS = 1500;
+
+interface LibraryChange {
+  root: string;
+  added: LibraryFileEntry[];  // new files, or known files whose contents changed
+  removed: string[];          // relativePaths
+  renamed: Array<{ from: string; to: LibraryFileEntry }>;
+}
+
+const libraryWatchers = new Map<string, fs.FSWatcher>();
+
+function watchLibraryRoot(root: string): void {
+  if (libraryWatchers.has(root)) return;
+
+  const changedPaths = new Set<string>();
+  let debounce: ReturnType<typeof setTimeout> | null = null;
+  try {
+    const watcher = fs.watch(root, { recursive: true }, (_eventType, fileName) => {
+      if (!fileName) return;
+      changedPaths.add(fileName.toString());
+      if (debounce) clearTimeout(debounce);
+      debounce = setTimeout(() => {
+        const paths = [...changedPaths];
+        changedPaths.clear();
+        debounce = null;
+        void reportLibraryChanges(root, paths);
+      }, WATCH_DEBOUNCE_MS);
+    });
+    watcher.on('error', (err) => {
+      console.warn(`Stopped watching ${root}:`, err);
+      watcher.close();
+      libraryWatchers.delete(root);
+    });
+    libraryWatchers.set(root, watcher);
+  } catch (err) {
+    console.warn(`Cannot watch ${root}:`, err);
+  }
+}
+
+// Drops a root: its files are no longer watched or served
+function forgetLibraryRoot(root: string): void {
+  libraryWatchers.get(root)?.close();
+  libraryWatchers.delete(root);
+  libraryRoots.delete(root);
+}
+
+function stopWatchingLibraries(): void {
+  for (const watcher of libraryWatchers.values()) watcher.close();
+  libraryWatchers.clear();
+}
+
+async function reportLibraryChanges(root: string, changedPaths: string[]): Promise<void> {
+  const known = libraryRoots.get(root);
+  if (!known) return;
+
+  const rootName = path.basename(root);
+  const appeared = new Map<string, LibraryFileEntry>();
+  const gone = new Set<string>();
+
+  for (const changed of changedPaths) {
+    const relativePath = [rootName, ...changed.split(path.sep)].join('/');
+    if (relativePath.split('/').some(part => part.startsWith('.'))) continue;
+    const fullPath = path.join(root, changed);
+
+    let stat: fs.Stats | null = null;
+    try {
+      stat = await fs.promises.stat(fullPath);
+    } catch {
+      // Gone: the path is a file or a whole folder of known files
+      for (const knownPath of known.keys()) {
+        if (knownPath === relativePath || knownPath.startsWith(`${relativePath}/`)) gone.add(knownPath);
+      }
+      continue;
+    }
+
+    const entries = stat.isDirectory()
+      ? await listAudioFiles(fullPath, relativePath)
+      : [await readAudioFileEntry(fullPath, relativePath)].filter((e): e is LibraryFileEntry => e !== null);
+    for (const entry of entries) {
+      const previous = known.get(entry.relativePath);
+      // Unchanged files show up when only their metadata (e.g. atime) was touched
+      if (previous && previous.size === entry.size && previous.lastModified === entry.lastModified) continue;
+      appeared.set(entry.relativePath, entry);
+    }
+  }
+
+  // A rename (or move within the root) is a known file gone plus a new file
+  // with the same size and modification time
+  const renamed: LibraryChange['renamed'] = [];
+  for (const from of gone) {
+    const previous = known.get(from)!;
+    const match = [...appeared.values()].find(entry =>
+      !known.has(entry.relativePath) &&
+      entry.size === previous.size &&
+      entry.lastModified === previous.lastModified
+    );
+    if (!match) continue;
+    renamed.push({ from, to: match });
+    appeared.delete(match.relativePath);
+    gone.delete(from);
+  }
+
+  const change: LibraryChange = { root, added: [...appeared.values()], removed: [...gone], renamed };
+  for (const from of change.removed) known.delete(from);
+  for (const { from, to } of change.renamed) {
+    known.delete(from);
+    known.set(to.relativePath, to);
+  }
+  for (const entry of change.added) known.set(entry.relativePath, entry);
+
+  if (change.added.length === 0 && change.removed.length === 0 && change.renamed.length === 0) return;
+  console.log(`Library change in ${root}: +${change.added.length} −${change.removed.length} ~${change.renamed.length}`);
+  mainWindow?.webContents.send('library-change', change);
+}
+
+function isUnder(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function isInLibrary(filePath: string): boolean {
+  if (stingerFolder && isUnder(stingerFolder, filePath)) return true;
+  for (const root of libraryRoots.keys()) {
+    if (isUnder(root, filePath)) return true;
+  }
+  return false;
+}
+
+// autodj-media://file/<encoded absolute path>
+async function handleMediaRequest(request: Request): Promise<Response> {
+  const filePath = path.normalize(decodeURIComponent(new URL(request.url).pathname.slice(1)));
+  if (!isInLibrary(filePath)) return new Response('Not found', { status: 404 });
+
+  // Pass Range headers through so media elements can seek
+  const response = await net.fetch(pathToFileURL(filePath).toString(), { headers: request.headers });
+  const headers = new Headers(response.headers);
+  headers.set('Access-Control-Allow-Origin', '*');
+  return new Response(response.body, { status: response.status, headers });
+}
+
+ipcMain.handle('choose-library-folder', async () => {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Select Music Folder',
+    properties: ['openDirectory'],
+  };
+  const result = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  return result.canceled ? null : result.filePaths[0] ?? null;
+});
+ipcMain.handle('scan-library', (_event, root: string) => scanLibraryRoot(root));
+ipcMain.handle('forget-library', (_event, root: string) => forgetLibraryRoot(root));
+ipcMain.handle('scan-stinger-folder', (_event, root: string) => scanStingerFolder(root));
+
 // IPC handlers for automation
 ipcMain.handle('start-automation-server', (_event, port: number) =>
   startAutomationServer(port)
@@ -187,6 +617,7 @@ function buildMenu() {
 
 // ── App lifecycle ──────────────────────────────────────────────────────────
 app.whenReady().then(() => {
+  protocol.handle(MEDIA_SCHEME, handleMediaRequest);
   buildMenu();
   createWindow();
 
@@ -197,5 +628,6 @@ app.whenReady().then(() => {
 
 app.on('window-all-closed', () => {
   stopAutomationServer();
+  stopWatchingLibraries();
   if (process.platform !== 'darwin') app.quit();
 });
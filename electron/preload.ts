@@ -8,6 +8,45 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Platform info
   platform: process.platform,
 
+  // Persistent JSON documents (stored in the app's userData folder)
+  store: {
+    /** Load a document by name. Resolves to null if it does not exist. */
+    load: (name: string) => ipcRenderer.invoke('load-store', name),
+    /** Replace a document by name. */
+    save: (name: string, data: unknown) => ipcRenderer.invoke('save-store', name, data),
+  },
+
+  // Program output recordings (written to a folder the user picks)
+  recording: {
+    /** Show a folder picker. Resolves to the chosen path, or null if cancelled. */
+    chooseFolder: () => ipcRenderer.invoke('choose-recording-folder'),
+    /** The folder picked last time, or null if none was picked yet. */
+    getFolder: () => ipcRenderer.invoke('get-recording-folder'),
+    /** Append a chunk of recorded audio to a file in the picked folder. */
+    append: (fileName: string, data: Uint8Array) => ipcRenderer.invoke('append-recording', fileName, data),
+    /** Replace a text file (e.g. the cue list) in the picked folder. */
+    write: (fileName: string, text: string) => ipcRenderer.invoke('write-recording', fileName, text),
+  },
+
+  // Music library folders, kept as paths so they can be reloaded on startup
+  library: {
+    /** Show a folder picker. Resolves to the chosen path, or null if cancelled. */
+    chooseFolder: () => ipcRenderer.invoke('choose-library-folder'),
+    /** List the audio files under a folder. Resolves to null if the folder is missing. */
+    scan: (root: string) => ipcRenderer.invoke('scan-library', root),
+    /** Stop watching and serving a scanned folder. */
+    forget: (root: string) => ipcRenderer.invoke('forget-library', root),
+    /** Like scan(), for the sound effects folder: replaces the previous one and is not watched. */
+    scanStingers: (root: string) => ipcRenderer.invoke('scan-stinger-folder', root),
+    /**
+     * Register a callback for files added, removed or renamed under a scanned
+     * folder. change is { root, added, removed, renamed }.
+     */
+    onChange: (callback: (change: unknown) => void) => {
+      ipcRenderer.on('library-change', (_event, change: unknown) => callback(change));
+    },
+  },
+
   // Automation server controls
   automation: {
     /** Start the HTTP server on the given port. Returns { success, error? } */
@@ -16,10 +55,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
     stop: () => ipcRenderer.invoke('stop-automation-server'),
     /**
      * Register a callback that fires whenever a Companion POST arrives.
-     * trigger is one of: 'setAudience' | 'matchStart' | 'matchEnd' | 'postResult'
+     * trigger is one of: 'setAudience' | 'matchStart' | 'matchEnd' | 'postResult' | 'duck' | 'unduck' | 'stinger'
+     * payload carries request options, e.g. { release } for 'duck' or { name } for 'stinger'.
+     * For 'stinger' the callback's { success, error? } result becomes the HTTP response.
      */
-    onTrigger: (callback: (trigger: string) => void) => {
-      ipcRenderer.on('automation-trigger', (_event, trigger: string) => callback(trigger));
+    onTrigger: (callback: (trigger: string, payload?: { release?: number; name?: string }) => unknown) => {
+      ipcRenderer.on('automation-trigger', async (_event, trigger: string, payload?: { release?: number; name?: string }, requestId?: number) => {
+        const result = await callback(trigger, payload);
+        if (requestId !== undefined) ipcRenderer.send('automation-result', requestId, result ?? { success: true });
+      });
     },
     /** Remove all automation trigger listeners (call on cleanup). */
     removeTriggerListeners: () => {
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import musicLibrary, { DeadAirIncident } from '@/utils/musicLibrary';
+
+/**
+ * Full-width banner raised by the dead-air watchdog. Stays up until dismissed
+ * so an incident is noticed even if the recovery already worked.
+ */
+export function DeadAirAlert() {
+  const [incident, setIncident] = useState<DeadAirIncident | null>(null);
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    const unsub = musicLibrary.onDeadAir(latest => {
+      setIncident(latest);
+      setCount(c => c + 1);
+    });
+    return unsub;
+  }, []);
+
+  if (!incident) return null;
+
+  const handleDismiss = () => {
+    setIncident(null);
+    setCount(0);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto mb-6 flex items-center gap-3 rounded-xl bg-red-600 text-white px-5 py-4 shadow-lg animate-fade-in" role="alert">
+      <AlertTriangle size={28} className="shrink-0 animate-pulse" />
+      <div className="flex-1">
+        <div className="text-lg font-bold">
+          Dead air detected{count > 1 ? ` (${count}×)` : ''}
+        </div>
+        <div className="text-sm text-white/90">
+          {incident.silentSeconds}s of silence
+          {incident.track ? ` during “${incident.track}”` : ''} at {new Date(incident.time).toLocaleTimeString()}.
+          {' '}Skipped to the next track — check the player and the PA.
+        </div>
+      </div>
+      <Button variant="ghost" size="icon" onClick={handleDismiss} className="shrink-0 text-white hover:bg-red-700 hover:text-white" title="Dismiss">
+        <X size={20} />
+      </Button>
+    </div>
+  );
+}
+
+export default DeadAirAlert;
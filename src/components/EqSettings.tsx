@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EqBand, EqGains, EQ_BANDS, EQ_MAX_GAIN, FLAT_EQ, getBandFrequency } from '@/utils/audio/equalizer';
+
+interface EqSettingsProps {
+  gains: EqGains;
+  presets: Record<string, EqGains>;
+  onGainsChange: (gains: EqGains) => void;
+  onPresetsChange: (presets: Record<string, EqGains>) => void;
+}
+
+const bandLabels: Record<EqBand, string> = {
+  low: 'Low',
+  mid: 'Mid',
+  high: 'High',
+};
+
+// Select value for the built-in flat preset; saved names can't collide with it
+const FLAT_PRESET = '__flat__';
+
+function formatGain(db: number): string {
+  return `${db > 0 ? '+' : ''}${db} dB`;
+}
+
+function formatFrequency(hz: number): string {
+  return hz >= 1000 ? `${hz / 1000} kHz` : `${hz} Hz`;
+}
+
+function sameGains(a: EqGains, b: EqGains): boolean {
+  return EQ_BANDS.every(band => a[band] === b[band]);
+}
+
+export function EqSettings({ gains, presets, onGainsChange, onPresetsChange }: EqSettingsProps) {
+  const [presetName, setPresetName] = useState('');
+
+  const presetNames = Object.keys(presets).sort((a, b) => a.localeCompare(b));
+  // Show the preset the current gains came from, if they still match one
+  const activePreset = sameGains(gains, FLAT_EQ)
+    ? FLAT_PRESET
+    : presetNames.find(name => sameGains(presets[name], gains)) ?? '';
+
+  const handlePresetSelect = (name: string) => {
+    onGainsChange(name === FLAT_PRESET ? { ...FLAT_EQ } : { ...presets[name] });
+    if (name !== FLAT_PRESET) setPresetName(name);
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onPresetsChange({ ...presets, [name]: { ...gains } });
+  };
+
+  const handleDelete = () => {
+    if (!activePreset || activePreset === FLAT_PRESET) return;
+    const remaining = { ...presets };
+    delete remaining[activePreset];
+    onPresetsChange(remaining);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-medium">Equalizer</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Shape the master output for the room, e.g. cut the lows in a boomy gym
+        </p>
+      </div>
+
+      <div className="space-y-4 p-4 border border-border rounded-lg bg-card/50">
+        <div className="flex items-center gap-2">
+          <Select value={activePreset} onValueChange={handlePresetSelect}>
+            <SelectTrigger className="flex-1 h-8" aria-label="Venue preset">
+              <SelectValue placeholder="Custom" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FLAT_PRESET}>Flat</SelectItem>
+              {presetNames.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={handleDelete}
+            disabled={!activePreset || activePreset === FLAT_PRESET}
+            title="Delete preset"
+          >
+            <Trash2 size={16} />
+          </Button>
+        </div>
+
+        {EQ_BANDS.map(band => (
+          <div key={band} className="space-y-2">
+            <Label htmlFor={`eq-${band}`} className="text-xs text-muted-foreground">
+              {bandLabels[band]} ({formatFrequency(getBandFrequency(band))}): {formatGain(gains[band])}
+            </Label>
+            <Slider
+              id={`eq-${band}`}
+              min={-EQ_MAX_GAIN}
+              max={EQ_MAX_GAIN}
+              step={0.5}
+              value={[gains[band]]}
+              onValueChange={(value) => onGainsChange({ ...gains, [band]: value[0] })}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            placeholder="Preset name, e.g. Main Gym"
+            className="h-8"
+          />
+          <Button variant="outline" size="sm" onClick={handleSave} disabled={!presetName.trim()} className="shrink-0">
+            Save Preset
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EqSettings;
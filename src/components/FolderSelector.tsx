@@ -1,8 +1,10 @@
 
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { toast } from '@/hooks/use-toast';
 import musicLibrary from '@/utils/musicLibrary';
+import { chooseLibraryFolder, isLibraryAvailable } from '@/utils/fileSource';
 
 interface FolderSelectorProps {
   onFoldersAdded: () => void;
@@ -10,8 +12,39 @@ interface FolderSelectorProps {
 
 export function FolderSelector({ onFoldersAdded }: FolderSelectorProps) {
   const folderInputRef = useRef<HTMLInputElement>(null);
+  // Electron: folders are opened by path with the native picker and remembered
+  const nativePicker = isLibraryAvailable();
+  const [recentLibraries, setRecentLibraries] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!nativePicker) return;
+    musicLibrary.getRecentLibraries().then(setRecentLibraries);
+  }, [nativePicker]);
+
+  const openLibraryRoot = async (root: string) => {
+    setLoading(true);
+    try {
+      if (await musicLibrary.addLibraryRoot(root)) onFoldersAdded();
+    } catch (error) {
+      console.error('Error adding folders:', error);
+      toast({
+        variant: "destructive",
+        title: "Failed to add folders",
+        description: "An error occurred while processing your music."
+      });
+    } finally {
+      setLoading(false);
+      musicLibrary.getRecentLibraries().then(setRecentLibraries);
+    }
+  };
 
   const handleFolderSelect = async () => {
+    if (nativePicker) {
+      const root = await chooseLibraryFolder();
+      if (root) await openLibraryRoot(root);
+      return;
+    }
     if (folderInputRef.current) {
       folderInputRef.current.click();
     }
@@ -51,10 +84,31 @@ export function FolderSelector({ onFoldersAdded }: FolderSelectorProps) {
       
       <Button
         onClick={handleFolderSelect}
+        disabled={loading}
         className="bg-player-accent hover:bg-player-accent/80 text-white px-6 py-3 rounded-lg"
       >
-        Select Music Folder
+        {loading ? 'Loading Music…' : 'Select Music Folder'}
       </Button>
+
+      {nativePicker && recentLibraries.length > 0 && (
+        <div className="mt-8 max-w-md mx-auto text-left">
+          <h3 className="text-sm font-medium text-player-text/70 mb-2">Recent Libraries</h3>
+          <div className="space-y-1">
+            {recentLibraries.map(root => (
+              <button
+                key={root}
+                onClick={() => openLibraryRoot(root)}
+                disabled={loading}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-player-text hover:bg-player-accent/10 disabled:opacity-50 transition-colors"
+                title={root}
+              >
+                <FolderOpen size={16} className="shrink-0 text-player-accent" />
+                <span className="truncate">{root}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
       
       <input
         type="file"
@@ -25,7 +25,8 @@ export function HowToDialog() {
             <h3 className="text-lg font-medium text-gray-900 dark:text-white">Setting Up Your Music</h3>
             <div className="text-sm space-y-2">
               <p>
-                Organize your music into subfolders — each subfolder becomes a playlist.
+                Organize your music into subfolders — each folder that holds audio files becomes a playlist.
+                Folders inside folders are kept as they are: a folder that only holds other folders becomes a collapsible group.
                 You can prefix folder names with numbers to control display order
                 (e.g. <span className="font-mono bg-gray-100 dark:bg-gray-700 px-1 rounded">01 - Between Matches</span>).
                 The number prefix is hidden in the app; only the name after it is shown.
@@ -33,6 +34,8 @@ export function HowToDialog() {
               <ul className="list-disc pl-5 space-y-1">
                 <li><strong>Supported formats:</strong> MP3, WAV, AAC, FLAC, and other common audio files.</li>
                 <li><strong>Add more music:</strong> Click the <strong>folder+ icon</strong> in the top-right header at any time to load additional folders without clearing what's already loaded.</li>
+                <li><strong>Desktop app:</strong> Your music folders are remembered and reloaded automatically on the next launch. Folders you opened before are listed under <strong>Recent Libraries</strong> on the Add Music screen.</li>
+                <li><strong>Adding songs mid-event (desktop app):</strong> Copy files into a playlist folder (or add a new subfolder) and they appear within a couple of seconds. Removed and renamed files are picked up too, without resetting which songs have already played.</li>
                 <li><strong>Back to player:</strong> If you open the Add Music screen by accident, click <strong>Back to Player</strong> to return without making any changes.</li>
               </ul>
             </div>
@@ -44,6 +47,7 @@ export function HowToDialog() {
               <ul className="list-disc pl-5 space-y-1">
                 <li><strong>Play / Pause:</strong> Click the button or press <kbd className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded text-xs">Space</kbd>.</li>
                 <li><strong>Next Track:</strong> Click the skip button or press <kbd className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded text-xs">N</kbd>.</li>
+                <li><strong>Duck:</strong> Click the microphone button or press <kbd className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded text-xs">D</kbd> to lower the music while the emcee talks, and again to bring it back.</li>
                 <li><strong>Volume:</strong> Drag the slider or click the speaker icon to mute/unmute. The percentage reflects the current output level.</li>
                 <li><strong>Seek:</strong> Drag the progress bar to jump to any point in the track.</li>
                 <li><strong>Time remaining:</strong> The right-hand timestamp (e.g. <span className="font-mono">−1:42</span>) shows how much time is left.</li>
@@ -64,7 +68,11 @@ export function HowToDialog() {
                 </li>
                 <li><strong>Active playlist:</strong> The currently playing card is highlighted with a blue border.</li>
                 <li><strong>Track count:</strong> Each card shows the total number of tracks in that playlist.</li>
-                <li><strong>Unplayed count:</strong> The green number below the track count shows how many tracks haven't played yet this session. Once all tracks have played, the count resets.</li>
+                <li><strong>Unplayed count:</strong> The green number below the track count shows how many tracks haven't played yet in the current cycle. Once all tracks have played, the count resets. Play history is saved, so a restart carries on where it left off.</li>
+                <li><strong>Groups:</strong> Click a group's name to collapse or expand it. A playlist with subfolders of its own leads its group; right-click it and tick <strong>Include Subfolders</strong> to play from all of them too.</li>
+                <li><strong>Reset a playlist:</strong> Right-click a card and choose <strong>Reset History</strong> to let every track in it play again.</li>
+                <li><strong>View tracks:</strong> Right-click a card and choose <strong>View Tracks…</strong> to see which tracks have played and when. Select tracks and click <strong>Mark Played</strong> to skip them this cycle, or <strong>Mark Unplayed</strong> to put them back in the pool.</li>
+                <li><strong>Backup laptop:</strong> Use <strong>Export Play History</strong> in the <strong>⋯ menu</strong> to save which tracks have played, then <strong>Import Play History…</strong> on the other machine so it continues the same no-repeat cycle.</li>
               </ul>
             </div>
           </section>
@@ -99,12 +107,24 @@ export function HowToDialog() {
                 <span>Play / Pause</span>
                 <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded text-xs font-mono justify-self-start">N</kbd>
                 <span>Skip to next track</span>
+                <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded text-xs font-mono justify-self-start">D</kbd>
+                <span>Duck / unduck the music</span>
+                <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded text-xs font-mono justify-self-start">1 … 0</kbd>
+                <span>Play sound effect pad 1–10</span>
                 <kbd className="bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded text-xs font-mono justify-self-start">S</kbd>
                 <span>Open / close Search &amp; Queue</span>
               </div>
             </div>
           </section>
 
+          <section className="space-y-2">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Recording the Mix</h3>
+            <div className="text-sm space-y-1">
+              <p>Click the <strong>record icon</strong> in the top-right header to record exactly what the app plays (music and sound effects), and click it again to stop. Each recording comes with a <span className="font-mono">.cues.csv</span> cue list of when each track started, both as an offset into the recording and as wall-clock time, for syncing with match video.</p>
+              <p>In the desktop app recordings are written as they happen to timestamped files in the recording folder (chosen on first use, changeable in <strong>Settings</strong>). In the browser both files are downloaded when you stop.</p>
+            </div>
+          </section>
+
           <section className="space-y-2">
             <h3 className="text-lg font-medium text-gray-900 dark:text-white">Light &amp; Dark Mode</h3>
             <div className="text-sm space-y-1">
@@ -118,7 +138,11 @@ export function HowToDialog() {
               <p>Open <strong>Settings</strong> (gear icon) → <strong>Audio</strong> tab:</p>
               <ul className="list-disc pl-5 space-y-1">
                 <li><strong>Volume Normalization:</strong> Automatically balances loudness between tracks so you don't have to ride the fader.</li>
+                <li><strong>Loudness Source:</strong> Tracks already scanned with ReplayGain (or tagged with R128 / iTunes Sound Check) can use their tags instead of being measured. The default uses tags when present and measures the rest.</li>
                 <li><strong>Crossfade:</strong> Smoothly blends the end of one track into the start of the next. Adjust the duration (1–10 seconds) to taste.</li>
+                <li><strong>Output Device:</strong> Pick the USB interface or HDMI output feeding the PA. The choice is remembered; if the device is unplugged mid-event the app warns you and keeps playing through the default output, then switches back when it returns.</li>
+                <li><strong>Output Channels:</strong> Switch to <strong>Mono</strong> when the venue PA is mono or only hears one side of your cable, so hard-panned parts of songs don't vanish. Left/right-only and swapped channels are also available.</li>
+                <li><strong>Equalizer:</strong> Low, mid and high controls for the whole output. Tune them for the venue and save the result as a named preset to recall at the next event there.</li>
                 <li>Settings are saved automatically and restored on the next launch.</li>
               </ul>
             </div>
@@ -139,6 +163,16 @@ export function HowToDialog() {
                 <div>POST http://localhost:3001/api/match-end</div>
                 <div>POST http://localhost:3001/api/post-result</div>
               </div>
+              <p>Duck the music for announcements with these endpoints. Add <code>?release=10</code> to bring the music back after 10 seconds:</p>
+              <div className="mt-2 bg-gray-100 dark:bg-gray-900 rounded p-3 text-xs font-mono space-y-1 text-gray-600 dark:text-gray-300">
+                <div>POST http://localhost:3001/api/duck</div>
+                <div>POST http://localhost:3001/api/unduck</div>
+              </div>
+              <p>Fire a sound effect pad by clip name (file name without extension) or pad number. The request fails with 404 when no clip is loaded for that name:</p>
+              <div className="mt-2 bg-gray-100 dark:bg-gray-900 rounded p-3 text-xs font-mono space-y-1 text-gray-600 dark:text-gray-300">
+                <div>POST http://localhost:3001/api/stinger/airhorn</div>
+                <div>POST http://localhost:3001/api/stinger/3</div>
+              </div>
             </div>
           </section>
 
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import audioManager from '@/utils/audioContext';
+import { OutputLevels } from '@/utils/audio/outputMeter';
+
+// Meter scale in dBFS
+const FLOOR_DB = -60;
+
+// Position on the meter, 0–100 %
+function toPercent(db: number): number {
+  if (!isFinite(db)) return 0;
+  return Math.max(0, Math.min(100, ((db - FLOOR_DB) / -FLOOR_DB) * 100));
+}
+
+// Green up to -12 dBFS, amber up to -3 dBFS, red above
+const GRADIENT = `linear-gradient(to right, #22c55e ${toPercent(-12)}%, #f59e0b ${toPercent(-12)}%, #f59e0b ${toPercent(-3)}%, #ef4444 ${toPercent(-3)}%)`;
+
+const CHANNEL_LABELS = ['L', 'R'];
+
+/**
+ * Peak / RMS meters for the master output with peak-hold markers and a clip
+ * LED. Click the LED to reset it.
+ */
+export function LevelMeter() {
+  const [levels, setLevels] = useState<OutputLevels>(() => audioManager.getOutputLevels());
+
+  useEffect(() => {
+    let frame = requestAnimationFrame(function update() {
+      setLevels(audioManager.getOutputLevels());
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const handleClipReset = () => {
+    audioManager.resetClipIndicator();
+    setLevels(audioManager.getOutputLevels());
+  };
+
+  const loudestPeak = Math.max(...levels.channels.map(c => c.peakHold), -Infinity);
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 space-y-1">
+        {levels.channels.map((channel, i) => (
+          <div key={i} className="flex items-center gap-1.5">
+            <span className="text-[9px] font-mono text-player-text/50 w-2">{CHANNEL_LABELS[i]}</span>
+            <div className="relative flex-1 h-1.5 rounded-sm bg-gray-300 dark:bg-slate-800 overflow-hidden">
+              {/* Peak bar (dim) with the RMS bar (bright) on top, both clipped from the full-scale gradient */}
+              <div
+                className="absolute inset-0 opacity-40"
+                style={{ background: GRADIENT, clipPath: `inset(0 ${100 - toPercent(channel.peak)}% 0 0)` }}
+              />
+              <div
+                className="absolute inset-0"
+                style={{ background: GRADIENT, clipPath: `inset(0 ${100 - toPercent(channel.rms)}% 0 0)` }}
+              />
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-player-text/80"
+                style={{ left: `calc(${toPercent(channel.peakHold)}% - 1px)`, display: isFinite(channel.peakHold) ? undefined : 'none' }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <span className="text-[10px] text-player-text/60 w-12 text-right tabular-nums shrink-0">
+        {isFinite(loudestPeak) ? `${loudestPeak.toFixed(1)} dB` : '−∞ dB'}
+      </span>
+      <button
+        onClick={handleClipReset}
+        title={levels.clipped ? 'Output clipped — click to reset' : 'Clip indicator'}
+        className={`h-3 w-3 rounded-full shrink-0 ${levels.clipped ? 'bg-red-500 shadow-[0_0_6px_#ef4444]' : 'bg-gray-300 dark:bg-slate-700'}`}
+      />
+    </div>
+  );
+}
+
+export default LevelMeter;
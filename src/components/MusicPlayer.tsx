@@ -2,8 +2,10 @@
 import React, { useEffect, useState, useRef, useLayoutEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
-import { Play, Pause, SkipForward, Volume, VolumeX, ListMusic } from "lucide-react";
+import { Play, Pause, SkipForward, Volume, VolumeX, ListMusic, Mic } from "lucide-react";
 import audioManager from '@/utils/audioContext';
+import LevelMeter from '@/components/LevelMeter';
+import WaveformOverview from '@/components/WaveformOverview';
 import musicLibrary, { TrackMetadata } from '@/utils/musicLibrary';
 
 // ── ScrollingText ────────────────────────────────────────────────────────────
@@ -67,6 +69,9 @@ export function MusicPlayer({
   const [duration, setDuration] = useState(
     () => musicLibrary.getCurrentTrack()?.duration ?? audioManager.getDuration()
   );
+  const [isDucked, setIsDucked] = useState(() => audioManager.isDucked());
+  const [waveform, setWaveform] = useState(() => audioManager.getCurrentWaveform());
+  const [transitionStart, setTransitionStart] = useState(() => audioManager.getTransitionStartTime());
   const [isDraggingSeeker, setIsDraggingSeeker] = useState(false);
   const [previousVolume, setPreviousVolume] = useState(1);
   const timeUpdateIntervalRef = useRef<number | null>(null);
@@ -80,6 +85,7 @@ export function MusicPlayer({
   useEffect(() => {
     const unsubTrack = musicLibrary.onTrackChange(track => {
       setCurrentTrack(track);
+      setWaveform(audioManager.getCurrentWaveform());
       if (track) {
         setDuration(track.duration);
         setIsPlaying(true);
@@ -87,24 +93,30 @@ export function MusicPlayer({
     });
 
     audioManager.onTrackEnd(() => {
-      musicLibrary.playNextTrack();
+      musicLibrary.playNextTrack('natural');
     });
 
+    // Ducks can also come from automation or expire on their own
+    const unsubDuck = audioManager.onDuckChange(setIsDucked);
+
     startTimeUpdateInterval();
 
     return () => {
       unsubTrack();
+      unsubDuck();
       if (timeUpdateIntervalRef.current !== null) {
         window.clearInterval(timeUpdateIntervalRef.current);
       }
     };
   }, []);
 
-  // Keyboard shortcuts — Space: play/pause, N: next track
+  // Keyboard shortcuts — Space: play/pause, N: next track, D: duck/unduck
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const tag = (e.target as HTMLElement)?.tagName;
       if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      // Leave Ctrl/Cmd/Alt combinations (e.g. Ctrl+D bookmark) to the browser
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
 
       if (e.code === 'Space') {
         e.preventDefault();
@@ -124,6 +136,11 @@ export function MusicPlayer({
       if (e.code === 'KeyN') {
         musicLibrary.playNextTrack();
       }
+
+      if (e.code === 'KeyD') {
+        if (audioManager.isDucked()) audioManager.unduck();
+        else audioManager.duck();
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -139,6 +156,7 @@ export function MusicPlayer({
       if (!isDraggingSeeker) {
         setCurrentTime(audioManager.getCurrentTime());
       }
+      setTransitionStart(audioManager.getTransitionStartTime());
     }, 100);
   };
 
@@ -164,6 +182,11 @@ export function MusicPlayer({
     musicLibrary.playNextTrack();
   };
 
+  const handleDuckToggle = () => {
+    if (isDucked) audioManager.unduck();
+    else audioManager.duck();
+  };
+
   const handleVolumeChange = (value: number[]) => {
     const newVolume = value[0];
     setVolume(newVolume);
@@ -244,7 +267,18 @@ export function MusicPlayer({
         </div>
 
         <div className="my-4">
-          <Slider value={[currentTime]} min={0} max={duration || 100} step={0.1} onValueChange={handleSeek} onValueCommit={handleSeekEnd} className="my-2 [&_.absolute]:bg-gray-500" onPointerDown={handleSeekStart} />
+          {/* Waveform sits behind the seek bar, whose track is made see-through */}
+          <div className={waveform ? 'relative h-12 flex items-center' : undefined}>
+            {waveform && (
+              <WaveformOverview
+                peaks={waveform}
+                currentTime={currentTime}
+                transitionStart={transitionStart}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              />
+            )}
+            <Slider value={[currentTime]} min={0} max={duration || 100} step={0.1} onValueChange={handleSeek} onValueCommit={handleSeekEnd} className={`my-2 ${waveform ? '[&_.absolute]:bg-transparent [&_.bg-secondary]:bg-transparent' : '[&_.absolute]:bg-gray-500'}`} onPointerDown={handleSeekStart} />
+          </div>
           <div className="flex justify-between text-xs text-player-text/70">
             <span>{formatTime(currentTime)}</span>
             <span>{duration > 0 ? `−${formatTime(timeRemaining)}` : '−:--'}</span>
@@ -260,6 +294,11 @@ export function MusicPlayer({
           <span className="text-xs text-player-text/60 w-8 text-right tabular-nums shrink-0">{volumePct}%</span>
         </div>
 
+        {/* ── Output meter ─────────────────────────────────────── */}
+        <div className="mt-4 px-2">
+          <LevelMeter />
+        </div>
+
         {/* ── Playback row ─────────────────────────────────────── */}
         <div className="flex items-center justify-center gap-5 mt-4">
           <Button size="icon" variant="ghost" onClick={handlePlayPause} className="h-12 w-12 rounded-full text-player-text bg-gray-200 dark:bg-slate-900 hover:bg-gray-300 dark:hover:bg-slate-800">
@@ -268,6 +307,9 @@ export function MusicPlayer({
           <Button size="icon" variant="ghost" onClick={handleNextTrack} className="h-10 w-10 rounded-full text-player-text bg-gray-200 dark:bg-slate-900 hover:bg-gray-300 dark:hover:bg-slate-800">
             <SkipForward size={18} />
           </Button>
+          <Button size="icon" variant="ghost" onClick={handleDuckToggle} title={isDucked ? 'Unduck music (D)' : 'Duck music for an announcement (D)'} className={`h-10 w-10 rounded-full ${isDucked ? 'bg-amber-500 text-white hover:bg-amber-600' : 'text-player-text bg-gray-200 dark:bg-slate-900 hover:bg-gray-300 dark:hover:bg-slate-800'}`}>
+            <Mic size={18} />
+          </Button>
         </div>
       </div>
     </div>;
@@ -1,9 +1,12 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from "@/components/ui/button";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, Music, Star, Search } from "lucide-react";
+import { ContextMenu, ContextMenuCheckboxItem, ContextMenuContent, ContextMenuItem, ContextMenuSeparator, ContextMenuTrigger } from "@/components/ui/context-menu";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { ChevronDown, ChevronRight, Download, Folder as FolderIcon, ListChecks, MoreHorizontal, Music, RotateCcw, Star, Search, Upload } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
-import musicLibrary from '@/utils/musicLibrary';
+import { toast } from '@/hooks/use-toast';
+import musicLibrary, { PlaylistNode } from '@/utils/musicLibrary';
+import { PlaylistTracksDialog } from './PlaylistTracksDialog';
 
 interface PlaylistSelectorProps {
   onRequestFolderSelect: () => void;
@@ -21,10 +24,16 @@ export function PlaylistSelector({
   const [activeFolder, setActiveFolder] = useState<string | null>(currentFolder);
   const [isLoading, setIsLoading] = useState(false);
   const [defaultFolder, setDefaultFolder] = useState<string | null>(musicLibrary.getDefaultFolder());
-  // Increments whenever a track plays, so unplayed counts re-render
+  // Increments whenever a track plays or the library changes on disk, so counts re-render
   const [trackVersion, setTrackVersion] = useState(0);
   const [queueLength, setQueueLength] = useState(0);
+  const historyInputRef = useRef<HTMLInputElement>(null);
+  // Playlist whose track list is open
+  const [viewingFolder, setViewingFolder] = useState<string | null>(null);
+  // Folder groups the user has folded away
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const folders = musicLibrary.getFolders();
+  const tree = musicLibrary.getFolderTree();
 
   // Keep active folder in sync with the currently playing folder
   useEffect(() => {
@@ -37,6 +46,21 @@ export function PlaylistSelector({
     return unsub;
   }, []);
 
+  // Tracks added to or removed from the playlist folders while running
+  useEffect(() => {
+    const unsub = musicLibrary.onLibraryChange(() => {
+      setTrackVersion(v => v + 1);
+      setDefaultFolder(musicLibrary.getDefaultFolder());
+    });
+    return unsub;
+  }, []);
+
+  // Play history imported or a no-repeat cycle reset
+  useEffect(() => {
+    const unsub = musicLibrary.onHistoryChange(() => setTrackVersion(v => v + 1));
+    return unsub;
+  }, []);
+
   // Track queue length for the search button badge
   useEffect(() => {
     const unsub = musicLibrary.onQueueChange(q => setQueueLength(q.length));
@@ -59,6 +83,172 @@ export function PlaylistSelector({
     setDefaultFolder(folderName);
   };
 
+  const handleResetHistory = (folderName: string) => {
+    musicLibrary.resetPlayHistory(folderName);
+    toast({
+      title: "Play history reset",
+      description: `Every track in ${musicLibrary.getDisplayName(folderName)} can play again.`
+    });
+  };
+
+  const toggleGroup = (path: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const handleExportHistory = () => {
+    const blob = new Blob([musicLibrary.exportPlayHistory()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `autodj-play-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const handleImportHistory = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = musicLibrary.importPlayHistory(await file.text());
+      toast({
+        title: "Play history imported",
+        description: `${imported} ${imported === 1 ? 'entry' : 'entries'} added or updated.`
+      });
+    } catch (error) {
+      console.error('Error importing play history:', error);
+      toast({
+        variant: "destructive",
+        title: "Failed to import play history",
+        description: `${file.name} is not a play history file.`
+      });
+    }
+  };
+
+  const renderCard = (node: PlaylistNode) => {
+    const folder = node.path;
+    const isActive = folder === activeFolder;
+    const isDefault = folder === defaultFolder;
+    const trackCount = musicLibrary.getTrackCount(folder);
+    // trackVersion in scope ensures this value is re-read after every track change
+    void trackVersion;
+    const unplayedCount = musicLibrary.getUnplayedCount(folder);
+    const hasDescendants = musicLibrary.hasDescendants(folder);
+
+    return (
+      <ContextMenu key={folder}>
+        <ContextMenuTrigger asChild>
+          <div
+            onClick={() => handlePlayFolder(folder)}
+            className={`relative p-4 rounded-lg cursor-pointer transition-all text-player-text bg-gray-100 dark:bg-slate-800 text-center
+              ${isActive
+                ? 'ring-2 ring-blue-400 ring-offset-2 ring-offset-white dark:ring-offset-slate-900'
+                : 'hover:bg-gray-200 dark:hover:bg-slate-700'}
+              ${isLoading && isActive ? 'opacity-70' : ''}`}
+          >
+            {/* Default star badge */}
+            {isDefault && (
+              <Star
+                size={13}
+                className="absolute top-2 right-2 text-yellow-400 fill-yellow-400"
+                aria-label="Default playlist"
+              />
+            )}
+
+            <div className="flex flex-col items-center">
+              {isLoading && isActive ? (
+                <>
+                  <Skeleton className="h-5 w-28 mb-1 bg-gray-600" />
+                  <Skeleton className="h-4 w-20 mb-0.5 bg-gray-700" />
+                  <Skeleton className="h-3 w-16 bg-gray-700" />
+                </>
+              ) : (
+                <>
+                  <Music size={18} className="mb-1 text-player-text/70" />
+                  <span className="font-medium truncate">
+                    {musicLibrary.getDisplayName(node.name)}
+                  </span>
+                  <span className="text-xs text-player-text/50 mt-0.5">
+                    {trackCount} {trackCount === 1 ? 'track' : 'tracks'}
+                    {hasDescendants && musicLibrary.getIncludeDescendants(folder) && ' incl. subfolders'}
+                  </span>
+                  <span className="text-xs text-green-600 dark:text-green-400/70 mt-0.5 tabular-nums">
+                    {unplayedCount} unplayed
+                  </span>
+                </>
+              )}
+            </div>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="bg-player-light border-player-accent text-player-text">
+          <ContextMenuItem className="cursor-pointer" onClick={() => setViewingFolder(folder)}>
+            <ListChecks size={12} className="mr-1.5" />
+            View Tracks…
+          </ContextMenuItem>
+          <ContextMenuItem className="cursor-pointer" onClick={() => handleResetHistory(folder)}>
+            <RotateCcw size={12} className="mr-1.5" />
+            Reset History
+          </ContextMenuItem>
+          {hasDescendants && (
+            <>
+              <ContextMenuSeparator className="bg-player-accent/50" />
+              <ContextMenuCheckboxItem
+                className="cursor-pointer"
+                checked={musicLibrary.getIncludeDescendants(folder)}
+                onCheckedChange={(checked) => musicLibrary.setIncludeDescendants(folder, checked === true)}
+              >
+                Include Subfolders
+              </ContextMenuCheckboxItem>
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
+  // Playlists without subfolders as a grid of cards, then a collapsible
+  // section for each folder with subfolders. A folder that is a playlist
+  // itself leads its section's grid.
+  const renderNodes = (nodes: PlaylistNode[], lead: PlaylistNode | null): React.ReactNode => {
+    const cards = [...(lead ? [lead] : []), ...nodes.filter(node => node.children.length === 0)];
+    return (
+      <>
+        {cards.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {cards.map(renderCard)}
+          </div>
+        )}
+        {nodes.filter(node => node.children.length > 0).map(node => {
+          const collapsed = collapsedGroups.has(node.path);
+          return (
+            <div key={node.path} className="space-y-3">
+              <button
+                type="button"
+                className="flex items-center gap-1 text-sm font-medium text-player-text/80 hover:text-player-text"
+                onClick={() => toggleGroup(node.path)}
+                aria-expanded={!collapsed}
+              >
+                {collapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+                <FolderIcon size={14} className="text-player-text/60" />
+                {musicLibrary.getDisplayName(node.name)}
+              </button>
+              {!collapsed && (
+                <div className="pl-4 border-l border-player-accent/30 space-y-4">
+                  {renderNodes(node.children, node.isPlaylist ? node : null)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </>
+    );
+  };
+
   if (folders.length === 0) {
     return (
       <div className="bg-player-light rounded-xl p-6 text-center text-player-text shadow-lg">
@@ -119,65 +309,32 @@ export function PlaylistSelector({
                   )}
                 </DropdownMenuItem>
               ))}
+              <DropdownMenuSeparator className="bg-player-accent/50" />
+              <DropdownMenuItem className="cursor-pointer" onClick={handleExportHistory}>
+                <Download size={12} className="mr-1.5" />
+                Export Play History
+              </DropdownMenuItem>
+              <DropdownMenuItem className="cursor-pointer" onClick={() => historyInputRef.current?.click()}>
+                <Upload size={12} className="mr-1.5" />
+                Import Play History…
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <input
+            ref={historyInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImportHistory}
+          />
         </div>
       </div>
 
-      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-        {folders.map(folder => {
-          const isActive = folder === activeFolder;
-          const isDefault = folder === defaultFolder;
-          const trackCount = musicLibrary.getTrackCount(folder);
-          // trackVersion in scope ensures this value is re-read after every track change
-          void trackVersion;
-          const unplayedCount = musicLibrary.getUnplayedCount(folder);
-
-          return (
-            <div
-              key={folder}
-              onClick={() => handlePlayFolder(folder)}
-              className={`relative p-4 rounded-lg cursor-pointer transition-all text-player-text bg-gray-100 dark:bg-slate-800 text-center
-                ${isActive
-                  ? 'ring-2 ring-blue-400 ring-offset-2 ring-offset-white dark:ring-offset-slate-900'
-                  : 'hover:bg-gray-200 dark:hover:bg-slate-700'}
-                ${isLoading && isActive ? 'opacity-70' : ''}`}
-            >
-              {/* Default star badge */}
-              {isDefault && (
-                <Star
-                  size={13}
-                  className="absolute top-2 right-2 text-yellow-400 fill-yellow-400"
-                  aria-label="Default playlist"
-                />
-              )}
-
-              <div className="flex flex-col items-center">
-                {isLoading && isActive ? (
-                  <>
-                    <Skeleton className="h-5 w-28 mb-1 bg-gray-600" />
-                    <Skeleton className="h-4 w-20 mb-0.5 bg-gray-700" />
-                    <Skeleton className="h-3 w-16 bg-gray-700" />
-                  </>
-                ) : (
-                  <>
-                    <Music size={18} className="mb-1 text-player-text/70" />
-                    <span className="font-medium truncate">
-                      {musicLibrary.getDisplayName(folder)}
-                    </span>
-                    <span className="text-xs text-player-text/50 mt-0.5">
-                      {trackCount} {trackCount === 1 ? 'track' : 'tracks'}
-                    </span>
-                    <span className="text-xs text-green-600 dark:text-green-400/70 mt-0.5 tabular-nums">
-                      {unplayedCount} unplayed
-                    </span>
-                  </>
-                )}
-              </div>
-            </div>
-          );
-        })}
+      <div className="space-y-4">
+        {renderNodes(tree, null)}
       </div>
+
+      <PlaylistTracksDialog folder={viewingFolder} onClose={() => setViewingFolder(null)} />
     </div>
   );
 }
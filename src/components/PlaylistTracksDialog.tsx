@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import musicLibrary from '@/utils/musicLibrary';
+
+interface PlaylistTracksDialogProps {
+  folder: string | null; // open while set
+  onClose: () => void;
+}
+
+function formatPlayedAt(playedAt: number): string {
+  const date = new Date(playedAt);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString() ? time : `${date.toLocaleDateString()} ${time}`;
+}
+
+export function PlaylistTracksDialog({ folder, onClose }: PlaylistTracksDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Increments on play history changes, so played times re-render
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  useEffect(() => {
+    const unsub = musicLibrary.onHistoryChange(() => setHistoryVersion(v => v + 1));
+    return unsub;
+  }, []);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [folder]);
+
+  // historyVersion in scope ensures the list is re-read after every history change
+  void historyVersion;
+  const tracks = folder ? musicLibrary.getTracks(folder) : [];
+  const allSelected = tracks.length > 0 && tracks.every(track => selected.has(track.path));
+
+  const toggleTrack = (path: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(tracks.map(track => track.path)) : new Set());
+  };
+
+  const markSelected = (played: boolean) => {
+    musicLibrary.setTracksPlayed(tracks.filter(track => selected.has(track.path)), played);
+    setSelected(new Set());
+  };
+
+  return (
+    <Dialog open={folder !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] bg-card text-card-foreground border-border overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>{folder ? musicLibrary.getDisplayName(folder) : ''}</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {folder ? `${musicLibrary.getUnplayedCount(folder)} of ${tracks.length} tracks unplayed this cycle.` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={allSelected} onCheckedChange={(checked) => toggleAll(checked === true)} />
+            Select all
+          </label>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={selected.size === 0} onClick={() => markSelected(true)}>
+              Mark Played
+            </Button>
+            <Button variant="outline" size="sm" disabled={selected.size === 0} onClick={() => markSelected(false)}>
+              Mark Unplayed
+            </Button>
+          </div>
+        </div>
+
+        <ScrollArea className="h-[50vh] pr-4">
+          <div className="space-y-1">
+            {tracks.map(track => {
+              const playedAt = musicLibrary.getLastPlayed(track);
+              return (
+                <label
+                  key={track.path}
+                  className="flex items-center gap-3 px-2 py-1.5 rounded cursor-pointer hover:bg-muted"
+                >
+                  <Checkbox
+                    checked={selected.has(track.path)}
+                    onCheckedChange={(checked) => toggleTrack(track.path, checked === true)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{track.title}</div>
+                    <div className="text-xs text-muted-foreground truncate">{track.artist}</div>
+                  </div>
+                  <span className={`text-xs shrink-0 tabular-nums ${playedAt === null ? 'text-green-600 dark:text-green-400/70' : 'text-muted-foreground'}`}>
+                    {playedAt === null ? 'Unplayed' : `Played ${formatPlayedAt(playedAt)}`}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PlaylistTracksDialog;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Circle, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import programRecorder from '@/utils/music/programRecorder';
+
+function formatElapsed(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+/**
+ * Header toggle for recording the program output. Shows the elapsed time
+ * while recording.
+ */
+export function RecordButton() {
+  const [startedAt, setStartedAt] = useState(() => programRecorder.getStartedAt());
+  const [now, setNow] = useState(() => Date.now());
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const unsub = programRecorder.onChange(() => setStartedAt(programRecorder.getStartedAt()));
+    return unsub;
+  }, []);
+
+  useEffect(() => {
+    if (!startedAt) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [startedAt]);
+
+  const handleToggle = async () => {
+    setBusy(true);
+    try {
+      if (programRecorder.isRecording()) {
+        await programRecorder.stop();
+      } else {
+        await programRecorder.start();
+        setNow(Date.now());
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (startedAt) {
+    return (
+      <Button
+        variant="ghost"
+        onClick={handleToggle}
+        disabled={busy}
+        className="gap-2 px-2 text-red-500 hover:text-red-600"
+        title="Stop recording"
+      >
+        <Square size={14} className="fill-current" />
+        <span className="text-sm font-mono tabular-nums">{formatElapsed(now - startedAt.getTime())}</span>
+        <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={handleToggle}
+      disabled={busy}
+      className="text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-500"
+      title="Record program output"
+    >
+      <Circle size={20} />
+    </Button>
+  );
+}
+
+export default RecordButton;
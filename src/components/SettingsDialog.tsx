@@ -6,6 +6,8 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -14,10 +16,80 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import audioManager from '@/utils/audioContext';
+import { toast } from '@/hooks/use-toast';
+import audioManager, { OutputDevice } from '@/utils/audioContext';
+import programRecorder from '@/utils/music/programRecorder';
+import { CrossfadeCurve, CROSSFADE_CURVES } from '@/utils/audio/fadeCurves';
+import {
+  TransitionReason,
+  TransitionProfile,
+  TRANSITION_REASONS,
+  TRANSITION_STYLES
+} from '@/utils/audio/transitions';
+import { EqGains, EQ_BANDS } from '@/utils/audio/equalizer';
+import { OutputMode, OUTPUT_MODES } from '@/utils/audio/channelMapper';
+import { NormalizationSource, NORMALIZATION_SOURCES } from '@/utils/audio/gainTags';
 import { AutomationSettings } from './AutomationSettings';
+import { TransitionSettings } from './TransitionSettings';
+import { EqSettings } from './EqSettings';
 import { AutomationConfig } from '@/hooks/useAutomationServer';
 
+type DuckSettings = ReturnType<typeof audioManager.getDuckSettings>;
+
+interface AudioSettings {
+  crossfadeEnabled: boolean;
+  crossfadeDuration: number;
+  crossfadeCurve: CrossfadeCurve;
+  transitionProfiles: Record<TransitionReason, TransitionProfile>;
+  pauseFadeOut: number;
+  pauseFadeIn: number;
+  duck: DuckSettings;
+  normalizationEnabled: boolean;
+  normalizationSource: NormalizationSource;
+  peakCeiling: number;
+  limiterEnabled: boolean;
+  limiterThreshold: number;
+  eq: EqGains;
+  eqPresets: Record<string, EqGains>;
+  outputMode: OutputMode;
+  outputDevice: string | null;
+  silenceTrimEnabled: boolean;
+  silenceStartThreshold: number;
+  silenceEndThreshold: number;
+  streamingMinutes: number;
+  streamingMegabytes: number;
+  deadAirTimeout: number;
+}
+
+const CURVE_LABELS: Record<CrossfadeCurve, string> = {
+  linear: 'Linear',
+  equalPower: 'Equal Power',
+  exponential: 'Exponential',
+  sCurve: 'S-Curve',
+};
+
+const NORMALIZATION_SOURCE_LABELS: Record<NormalizationSource, string> = {
+  tagsFirst: 'Tags, else Analysis',
+  tags: 'Tags Only',
+  analysis: 'Analysis Only',
+};
+
+const OUTPUT_MODE_LABELS: Record<OutputMode, string> = {
+  stereo: 'Stereo',
+  mono: 'Mono (L + R on both)',
+  left: 'Left Only (mono sum)',
+  right: 'Right Only (mono sum)',
+  swap: 'Swap Left / Right',
+};
+
+// Select value for the system default output; device labels are never empty
+const DEFAULT_DEVICE = '__default__';
+
+function isEqGains(value: unknown): value is EqGains {
+  return typeof value === 'object' && value !== null &&
+    EQ_BANDS.every(band => typeof (value as Record<string, unknown>)[band] === 'number');
+}
+
 interface SettingsDialogProps {
   automationConfig: AutomationConfig;
   automationSaveConfig: (config: AutomationConfig) => void;
@@ -27,22 +99,134 @@ interface SettingsDialogProps {
 export function SettingsDialog({ automationConfig, automationSaveConfig, automationIsRunning }: SettingsDialogProps) {
   const [crossfadeEnabled, setCrossfadeEnabled] = useState<boolean>(true);
   const [crossfadeDuration, setCrossfadeDuration] = useState<number>(2);
+  const [crossfadeCurve, setCrossfadeCurve] = useState<CrossfadeCurve>(() => audioManager.getCrossfadeCurve());
+  const [transitionProfiles, setTransitionProfiles] = useState(() => audioManager.getTransitionProfiles());
+  const [pauseFadeOut, setPauseFadeOut] = useState<number>(() => audioManager.getPauseFades().fadeOut);
+  const [pauseFadeIn, setPauseFadeIn] = useState<number>(() => audioManager.getPauseFades().fadeIn);
+  const [duck, setDuck] = useState<DuckSettings>(() => audioManager.getDuckSettings());
   const [normalizationEnabled, setNormalizationEnabled] = useState<boolean>(true);
+  const [normalizationSource, setNormalizationSource] = useState<NormalizationSource>(() => audioManager.getNormalizationSource());
+  const [peakCeiling, setPeakCeiling] = useState<number>(() => audioManager.getPeakCeiling());
+  const [limiterEnabled, setLimiterEnabled] = useState<boolean>(() => audioManager.isLimiterEnabled());
+  const [limiterThreshold, setLimiterThreshold] = useState<number>(() => audioManager.getLimiterThreshold());
+  const [eq, setEq] = useState<EqGains>(() => audioManager.getEqGains());
+  const [eqPresets, setEqPresets] = useState<Record<string, EqGains>>({});
+  const [outputMode, setOutputMode] = useState<OutputMode>(() => audioManager.getOutputMode());
+  const [outputDevice, setOutputDevice] = useState<string | null>(() => audioManager.getOutputDevice());
+  const [outputDevices, setOutputDevices] = useState<OutputDevice[]>([]);
+  const [silenceTrimEnabled, setSilenceTrimEnabled] = useState<boolean>(() => audioManager.isSilenceTrimEnabled());
+  const [silenceStartThreshold, setSilenceStartThreshold] = useState<number>(() => audioManager.getSilenceThresholds().start);
+  const [silenceEndThreshold, setSilenceEndThreshold] = useState<number>(() => audioManager.getSilenceThresholds().end);
+  const [streamingMinutes, setStreamingMinutes] = useState<number>(() => audioManager.getStreamingThresholds().minutes);
+  const [streamingMegabytes, setStreamingMegabytes] = useState<number>(() => audioManager.getStreamingThresholds().megabytes);
+  const [deadAirTimeout, setDeadAirTimeout] = useState<number>(() => audioManager.getDeadAirTimeout());
+  const [recordingFolder, setRecordingFolder] = useState<string | null>(() => programRecorder.getFolder());
+  const isElectron = !!window.electronAPI?.isElectron;
   
   // Load persisted settings on mount and apply them to the audio manager
   useEffect(() => {
     try {
       const saved = localStorage.getItem('audio-settings');
       if (saved) {
-        const { crossfadeEnabled: ce, crossfadeDuration: cd, normalizationEnabled: ne } = JSON.parse(saved);
-        const duration = typeof cd === 'number' ? cd : 2;
-        const enabled  = typeof ce === 'boolean' ? ce : true;
-        const norm     = typeof ne === 'boolean' ? ne : true;
+        const {
+          crossfadeEnabled: ce,
+          crossfadeDuration: cd,
+          crossfadeCurve: cc,
+          transitionProfiles: tp,
+          pauseFadeOut: pfo,
+          pauseFadeIn: pfi,
+          duck: dk,
+          normalizationEnabled: ne,
+          normalizationSource: ns,
+          peakCeiling: pc,
+          limiterEnabled: le,
+          limiterThreshold: lt,
+          eq: eg,
+          eqPresets: ep,
+          outputMode: om,
+          outputDevice: od,
+          silenceTrimEnabled: st,
+          silenceStartThreshold: ss,
+          silenceEndThreshold: se,
+          streamingMinutes: sm,
+          streamingMegabytes: sb,
+          deadAirTimeout: da,
+        } = JSON.parse(saved);
+        const duration  = typeof cd === 'number' ? cd : 2;
+        const enabled   = typeof ce === 'boolean' ? ce : true;
+        const curve     = CROSSFADE_CURVES.includes(cc) ? cc as CrossfadeCurve : audioManager.getCrossfadeCurve();
+        const profiles  = audioManager.getTransitionProfiles();
+        for (const reason of TRANSITION_REASONS) {
+          const p = tp?.[reason];
+          if (p && TRANSITION_STYLES.includes(p.style) && typeof p.dipDuration === 'number') {
+            profiles[reason] = { style: p.style, dipDuration: p.dipDuration };
+          }
+        }
+        const fadeOut   = typeof pfo === 'number' ? pfo : audioManager.getPauseFades().fadeOut;
+        const fadeIn    = typeof pfi === 'number' ? pfi : audioManager.getPauseFades().fadeIn;
+        const duckSet   = audioManager.getDuckSettings();
+        for (const key of Object.keys(duckSet) as Array<keyof DuckSettings>) {
+          if (typeof dk?.[key] === 'number') duckSet[key] = dk[key];
+        }
+        const norm      = typeof ne === 'boolean' ? ne : true;
+        const normSrc   = NORMALIZATION_SOURCES.includes(ns) ? ns as NormalizationSource : audioManager.getNormalizationSource();
+        const ceiling   = typeof pc === 'number' ? pc : audioManager.getPeakCeiling();
+        const limiter   = typeof le === 'boolean' ? le : audioManager.isLimiterEnabled();
+        const threshold = typeof lt === 'number' ? lt : audioManager.getLimiterThreshold();
+        const eqGains   = isEqGains(eg) ? { ...eg } : audioManager.getEqGains();
+        const presets: Record<string, EqGains> = {};
+        if (ep && typeof ep === 'object') {
+          for (const [name, gains] of Object.entries(ep)) {
+            if (isEqGains(gains)) presets[name] = gains;
+          }
+        }
+        const mode      = OUTPUT_MODES.includes(om) ? om as OutputMode : audioManager.getOutputMode();
+        const device    = typeof od === 'string' ? od : null;
+        const trim      = typeof st === 'boolean' ? st : audioManager.isSilenceTrimEnabled();
+        const trimStart = typeof ss === 'number' ? ss : audioManager.getSilenceThresholds().start;
+        const trimEnd   = typeof se === 'number' ? se : audioManager.getSilenceThresholds().end;
+        const streamMin = typeof sm === 'number' ? sm : audioManager.getStreamingThresholds().minutes;
+        const streamMb  = typeof sb === 'number' ? sb : audioManager.getStreamingThresholds().megabytes;
+        const deadAir   = typeof da === 'number' ? da : audioManager.getDeadAirTimeout();
         setCrossfadeDuration(duration);
         setCrossfadeEnabled(enabled);
+        setCrossfadeCurve(curve);
+        setTransitionProfiles(profiles);
+        setPauseFadeOut(fadeOut);
+        setPauseFadeIn(fadeIn);
+        setDuck(duckSet);
         setNormalizationEnabled(norm);
+        setNormalizationSource(normSrc);
+        setPeakCeiling(ceiling);
+        setLimiterEnabled(limiter);
+        setLimiterThreshold(threshold);
+        setEq(eqGains);
+        setEqPresets(presets);
+        setOutputMode(mode);
+        setOutputDevice(device);
+        setSilenceTrimEnabled(trim);
+        setSilenceStartThreshold(trimStart);
+        setSilenceEndThreshold(trimEnd);
+        setStreamingMinutes(streamMin);
+        setStreamingMegabytes(streamMb);
+        setDeadAirTimeout(deadAir);
         audioManager.setCrossfadeDuration(enabled ? duration : 0);
+        audioManager.setCrossfadeCurve(curve);
+        for (const reason of TRANSITION_REASONS) audioManager.setTransitionProfile(reason, profiles[reason]);
+        audioManager.setPauseFades(fadeOut, fadeIn);
+        audioManager.setDuckSettings(duckSet);
         audioManager.setNormalizationEnabled(norm);
+        audioManager.setNormalizationSource(normSrc);
+        audioManager.setPeakCeiling(ceiling);
+        audioManager.setLimiterEnabled(limiter);
+        audioManager.setLimiterThreshold(threshold);
+        audioManager.setEqGains(eqGains);
+        audioManager.setOutputMode(mode);
+        if (device) void audioManager.setOutputDevice(device);
+        audioManager.setSilenceTrimEnabled(trim);
+        audioManager.setSilenceThresholds(trimStart, trimEnd);
+        audioManager.setStreamingThresholds(streamMin, streamMb);
+        audioManager.setDeadAirTimeout(deadAir);
         return;
       }
     } catch { /* ignore */ }
@@ -53,37 +237,226 @@ export function SettingsDialog({ automationConfig, automationSaveConfig, automat
     setNormalizationEnabled(audioManager.isNormalizationEnabled());
   }, []);
 
-  const persistSettings = (ce: boolean, cd: number, ne: boolean) => {
+  // Warn when the chosen output device drops out mid-event. Lives here because
+  // the dialog (unlike its content) stays mounted for the whole session.
+  useEffect(() => {
+    const unsub = audioManager.onOutputDeviceChange((event, label) => {
+      if (event === 'lost') {
+        toast({
+          variant: "destructive",
+          title: "Audio output disconnected",
+          description: `"${label}" is unavailable. Playing through the default output until it is reconnected.`
+        });
+      } else {
+        toast({
+          title: "Audio output reconnected",
+          description: `Playing through "${label}" again.`
+        });
+      }
+    });
+    return unsub;
+  }, []);
+
+  // The recording folder is read from the main process after startup
+  useEffect(() => {
+    const unsub = programRecorder.onChange(() => setRecordingFolder(programRecorder.getFolder()));
+    return unsub;
+  }, []);
+
+  const refreshOutputDevices = async () => {
     try {
-      localStorage.setItem('audio-settings', JSON.stringify({
-        crossfadeEnabled: ce,
-        crossfadeDuration: cd,
-        normalizationEnabled: ne,
-      }));
+      setOutputDevices(await audioManager.getOutputDevices());
+    } catch (err) {
+      console.error('Failed to list audio outputs:', err);
+    }
+  };
+
+  // Save the current settings with the given changes applied on top
+  const persistSettings = (changes: Partial<AudioSettings>) => {
+    const settings: AudioSettings = {
+      crossfadeEnabled,
+      crossfadeDuration,
+      crossfadeCurve,
+      transitionProfiles,
+      pauseFadeOut,
+      pauseFadeIn,
+      duck,
+      normalizationEnabled,
+      normalizationSource,
+      peakCeiling,
+      limiterEnabled,
+      limiterThreshold,
+      eq,
+      eqPresets,
+      outputMode,
+      outputDevice,
+      silenceTrimEnabled,
+      silenceStartThreshold,
+      silenceEndThreshold,
+      streamingMinutes,
+      streamingMegabytes,
+      deadAirTimeout,
+      ...changes,
+    };
+    try {
+      localStorage.setItem('audio-settings', JSON.stringify(settings));
     } catch { /* ignore */ }
   };
   
   const handleCrossfadeToggle = (enabled: boolean) => {
     setCrossfadeEnabled(enabled);
     audioManager.setCrossfadeDuration(enabled ? crossfadeDuration : 0);
-    persistSettings(enabled, crossfadeDuration, normalizationEnabled);
+    persistSettings({ crossfadeEnabled: enabled });
   };
 
   const handleDurationChange = (value: number[]) => {
     const newDuration = value[0];
     setCrossfadeDuration(newDuration);
     if (crossfadeEnabled) audioManager.setCrossfadeDuration(newDuration);
-    persistSettings(crossfadeEnabled, newDuration, normalizationEnabled);
+    persistSettings({ crossfadeDuration: newDuration });
+  };
+
+  const handleCurveChange = (value: string) => {
+    const curve = value as CrossfadeCurve;
+    setCrossfadeCurve(curve);
+    audioManager.setCrossfadeCurve(curve);
+    persistSettings({ crossfadeCurve: curve });
+  };
+
+  const handleTransitionChange = (reason: TransitionReason, profile: TransitionProfile) => {
+    const profiles = { ...transitionProfiles, [reason]: profile };
+    setTransitionProfiles(profiles);
+    audioManager.setTransitionProfile(reason, profile);
+    persistSettings({ transitionProfiles: profiles });
   };
 
   const handleNormalizationToggle = (enabled: boolean) => {
     setNormalizationEnabled(enabled);
     audioManager.setNormalizationEnabled(enabled);
-    persistSettings(crossfadeEnabled, crossfadeDuration, enabled);
+    persistSettings({ normalizationEnabled: enabled });
+  };
+
+  const handleNormalizationSourceChange = (value: string) => {
+    const source = value as NormalizationSource;
+    setNormalizationSource(source);
+    audioManager.setNormalizationSource(source);
+    persistSettings({ normalizationSource: source });
+  };
+
+  const handlePeakCeilingChange = (value: number[]) => {
+    const ceiling = value[0];
+    setPeakCeiling(ceiling);
+    audioManager.setPeakCeiling(ceiling);
+    persistSettings({ peakCeiling: ceiling });
+  };
+
+  const handleLimiterToggle = (enabled: boolean) => {
+    setLimiterEnabled(enabled);
+    audioManager.setLimiterEnabled(enabled);
+    persistSettings({ limiterEnabled: enabled });
+  };
+
+  const handleLimiterThresholdChange = (value: number[]) => {
+    const threshold = value[0];
+    setLimiterThreshold(threshold);
+    audioManager.setLimiterThreshold(threshold);
+    persistSettings({ limiterThreshold: threshold });
+  };
+  
+  const handlePauseFadeOutChange = (value: number[]) => {
+    const seconds = value[0];
+    setPauseFadeOut(seconds);
+    audioManager.setPauseFades(seconds, pauseFadeIn);
+    persistSettings({ pauseFadeOut: seconds });
+  };
+
+  const handlePauseFadeInChange = (value: number[]) => {
+    const seconds = value[0];
+    setPauseFadeIn(seconds);
+    audioManager.setPauseFades(pauseFadeOut, seconds);
+    persistSettings({ pauseFadeIn: seconds });
+  };
+
+  const handleDuckChange = (changes: Partial<DuckSettings>) => {
+    const next = { ...duck, ...changes };
+    setDuck(next);
+    audioManager.setDuckSettings(next);
+    persistSettings({ duck: next });
+  };
+
+  const handleEqChange = (gains: EqGains) => {
+    setEq(gains);
+    audioManager.setEqGains(gains);
+    persistSettings({ eq: gains });
+  };
+
+  const handleEqPresetsChange = (presets: Record<string, EqGains>) => {
+    setEqPresets(presets);
+    persistSettings({ eqPresets: presets });
+  };
+
+  const handleOutputModeChange = (value: string) => {
+    const mode = value as OutputMode;
+    setOutputMode(mode);
+    audioManager.setOutputMode(mode);
+    persistSettings({ outputMode: mode });
+  };
+
+  const handleOutputDeviceChange = (value: string) => {
+    const label = value === DEFAULT_DEVICE ? null : value;
+    setOutputDevice(label);
+    void audioManager.setOutputDevice(label);
+    persistSettings({ outputDevice: label });
+  };
+
+  const handleSilenceTrimToggle = (enabled: boolean) => {
+    setSilenceTrimEnabled(enabled);
+    audioManager.setSilenceTrimEnabled(enabled);
+    persistSettings({ silenceTrimEnabled: enabled });
+  };
+
+  const handleSilenceStartChange = (value: number[]) => {
+    const threshold = value[0];
+    setSilenceStartThreshold(threshold);
+    audioManager.setSilenceThresholds(threshold, silenceEndThreshold);
+    persistSettings({ silenceStartThreshold: threshold });
+  };
+
+  const handleSilenceEndChange = (value: number[]) => {
+    const threshold = value[0];
+    setSilenceEndThreshold(threshold);
+    audioManager.setSilenceThresholds(silenceStartThreshold, threshold);
+    persistSettings({ silenceEndThreshold: threshold });
+  };
+
+  const handleStreamingMinutesChange = (value: number[]) => {
+    const minutes = value[0];
+    setStreamingMinutes(minutes);
+    audioManager.setStreamingThresholds(minutes, streamingMegabytes);
+    persistSettings({ streamingMinutes: minutes });
+  };
+
+  const handleStreamingMegabytesChange = (value: number[]) => {
+    const megabytes = value[0];
+    setStreamingMegabytes(megabytes);
+    audioManager.setStreamingThresholds(streamingMinutes, megabytes);
+    persistSettings({ streamingMegabytes: megabytes });
+  };
+
+  const handleDeadAirTimeoutChange = (value: number[]) => {
+    const seconds = value[0];
+    setDeadAirTimeout(seconds);
+    audioManager.setDeadAirTimeout(seconds);
+    persistSettings({ deadAirTimeout: seconds });
+  };
+
+  const handleChooseRecordingFolder = async () => {
+    const folder = await programRecorder.chooseFolder();
+    if (folder) setRecordingFolder(folder);
   };
   
   return (
-    <Dialog>
+    <Dialog onOpenChange={(open) => { if (open) void refreshOutputDevices(); }}>
       <DialogTrigger asChild>
         <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-foreground" title="Settings">
           <Settings size={20} />
@@ -103,49 +476,385 @@ export function SettingsDialog({ automationConfig, automationSaveConfig, automat
             <TabsTrigger value="automation">Automation</TabsTrigger>
           </TabsList>
           
-          <TabsContent value="audio" className="space-y-6 mt-6">
-            <div className="flex items-center justify-between">
-              <Label htmlFor="normalization-toggle" className="text-sm font-medium">
-                Volume Normalization
-                <p className="text-xs text-muted-foreground font-normal mt-1">
-                  Automatically balance volume levels between tracks
-                </p>
-              </Label>
-              <Switch
-                id="normalization-toggle"
-                checked={normalizationEnabled}
-                onCheckedChange={handleNormalizationToggle}
-              />
-            </div>
+          <TabsContent value="audio" className="mt-6">
+            <ScrollArea className="h-[50vh] pr-4">
+              <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="normalization-toggle" className="text-sm font-medium">
+                    Volume Normalization
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Automatically balance volume levels between tracks
+                    </p>
+                  </Label>
+                  <Switch
+                    id="normalization-toggle"
+                    checked={normalizationEnabled}
+                    onCheckedChange={handleNormalizationToggle}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="text-sm font-medium">
+                    Loudness Source
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Use ReplayGain / R128 / iTunes Sound Check tags or measure each track
+                    </p>
+                  </Label>
+                  <Select value={normalizationSource} onValueChange={handleNormalizationSourceChange} disabled={!normalizationEnabled}>
+                    <SelectTrigger className="w-52 h-8" aria-label="Loudness source">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NORMALIZATION_SOURCES.map(source => (
+                        <SelectItem key={source} value={source}>
+                          {NORMALIZATION_SOURCE_LABELS[source]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
             
-            <div className="flex items-center justify-between">
-              <Label htmlFor="crossfade-toggle" className="text-sm font-medium">
-                Enable Crossfade
-              </Label>
-              <Switch
-                id="crossfade-toggle"
-                checked={crossfadeEnabled}
-                onCheckedChange={handleCrossfadeToggle}
-              />
-            </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="crossfade-toggle" className="text-sm font-medium">
+                    Enable Crossfade
+                  </Label>
+                  <Switch
+                    id="crossfade-toggle"
+                    checked={crossfadeEnabled}
+                    onCheckedChange={handleCrossfadeToggle}
+                  />
+                </div>
             
-            <div className="space-y-3">
-              <div className="flex justify-between">
-                <Label htmlFor="crossfade-duration" className="text-sm font-medium">
-                  Crossfade Duration: {crossfadeDuration} seconds
-                </Label>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="crossfade-duration" className="text-sm font-medium">
+                      Crossfade Duration: {crossfadeDuration} seconds
+                    </Label>
+                    <Select value={crossfadeCurve} onValueChange={handleCurveChange} disabled={!crossfadeEnabled}>
+                      <SelectTrigger className="w-40 h-8" aria-label="Crossfade curve">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CROSSFADE_CURVES.map(curve => (
+                          <SelectItem key={curve} value={curve}>
+                            {CURVE_LABELS[curve]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Slider
+                    id="crossfade-duration"
+                    disabled={!crossfadeEnabled}
+                    min={1}
+                    max={10}
+                    step={0.5}
+                    value={[crossfadeDuration]}
+                    onValueChange={(value) => handleDurationChange(value)}
+                    className={!crossfadeEnabled ? "opacity-50" : ""}
+                  />
+                </div>
+
+                <TransitionSettings profiles={transitionProfiles} onChange={handleTransitionChange} />
+
+                <div className="space-y-3">
+                  <Label htmlFor="pause-fade-out" className="text-sm font-medium">
+                    Pause Fade-Out: {pauseFadeOut}s
+                  </Label>
+                  <Slider
+                    id="pause-fade-out"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={[pauseFadeOut]}
+                    onValueChange={handlePauseFadeOutChange}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="pause-fade-in" className="text-sm font-medium">
+                    Resume Fade-In: {pauseFadeIn}s
+                  </Label>
+                  <Slider
+                    id="pause-fade-in"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={[pauseFadeIn]}
+                    onValueChange={handlePauseFadeInChange}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="duck-depth" className="text-sm font-medium">
+                    Duck Depth: {duck.depth} dB
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      How far the music drops while ducked for announcements (D key, mic button or /api/duck)
+                    </p>
+                  </Label>
+                  <Slider
+                    id="duck-depth"
+                    min={-30}
+                    max={-3}
+                    step={1}
+                    value={[duck.depth]}
+                    onValueChange={value => handleDuckChange({ depth: value[0] })}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="duck-attack" className="text-sm font-medium">
+                    Duck Attack: {duck.attack}s
+                  </Label>
+                  <Slider
+                    id="duck-attack"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={[duck.attack]}
+                    onValueChange={value => handleDuckChange({ attack: value[0] })}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="duck-release" className="text-sm font-medium">
+                    Duck Release: {duck.release}s
+                  </Label>
+                  <Slider
+                    id="duck-release"
+                    min={0}
+                    max={5}
+                    step={0.1}
+                    value={[duck.release]}
+                    onValueChange={value => handleDuckChange({ release: value[0] })}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="duck-auto-release" className="text-sm font-medium">
+                    Auto-Release: {duck.autoRelease > 0 ? `${duck.autoRelease}s` : 'Off'}
+                  </Label>
+                  <Slider
+                    id="duck-auto-release"
+                    min={0}
+                    max={120}
+                    step={5}
+                    value={[duck.autoRelease]}
+                    onValueChange={value => handleDuckChange({ autoRelease: value[0] })}
+                  />
+                </div>
+
+                {audioManager.supportsOutputDeviceSelection() && (
+                  <div className="flex items-center justify-between gap-4">
+                    <Label className="text-sm font-medium">
+                      Output Device
+                      <p className="text-xs text-muted-foreground font-normal mt-1">
+                        Falls back to the default output if the device is unplugged
+                      </p>
+                    </Label>
+                    <Select value={outputDevice ?? DEFAULT_DEVICE} onValueChange={handleOutputDeviceChange}>
+                      <SelectTrigger className="w-52 h-8" aria-label="Output device">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_DEVICE}>System Default</SelectItem>
+                        {outputDevices.map(device => (
+                          <SelectItem key={device.id} value={device.label}>
+                            {device.label}
+                          </SelectItem>
+                        ))}
+                        {outputDevice && !outputDevices.some(d => d.label === outputDevice) && (
+                          <SelectItem value={outputDevice}>{outputDevice} (not connected)</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between gap-4">
+                  <Label className="text-sm font-medium">
+                    Output Channels
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Use mono when the PA only gets one side of the stereo feed
+                    </p>
+                  </Label>
+                  <Select value={outputMode} onValueChange={handleOutputModeChange}>
+                    <SelectTrigger className="w-52 h-8" aria-label="Output channels">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_MODES.map(mode => (
+                        <SelectItem key={mode} value={mode}>
+                          {OUTPUT_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <EqSettings
+                  gains={eq}
+                  presets={eqPresets}
+                  onGainsChange={handleEqChange}
+                  onPresetsChange={handleEqPresetsChange}
+                />
+
+                <div className="space-y-3">
+                  <Label htmlFor="peak-ceiling" className="text-sm font-medium">
+                    Peak Ceiling: {peakCeiling} dBTP
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Normalization never boosts a track's true peak above this level
+                    </p>
+                  </Label>
+                  <Slider
+                    id="peak-ceiling"
+                    min={-6}
+                    max={0}
+                    step={0.5}
+                    value={[peakCeiling]}
+                    onValueChange={handlePeakCeilingChange}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="limiter-toggle" className="text-sm font-medium">
+                    Master Limiter
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Compress peaks above the threshold and clip at the ceiling before the PA
+                    </p>
+                  </Label>
+                  <Switch
+                    id="limiter-toggle"
+                    checked={limiterEnabled}
+                    onCheckedChange={handleLimiterToggle}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="limiter-threshold" className="text-sm font-medium">
+                    Limiter Threshold: {limiterThreshold} dB
+                  </Label>
+                  <Slider
+                    id="limiter-threshold"
+                    disabled={!limiterEnabled}
+                    min={-24}
+                    max={0}
+                    step={1}
+                    value={[limiterThreshold]}
+                    onValueChange={handleLimiterThresholdChange}
+                    className={!limiterEnabled ? "opacity-50" : ""}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="silence-trim-toggle" className="text-sm font-medium">
+                    Skip Silence
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Start tracks at the first audible sound and begin the next track before trailing silence or fade tails
+                    </p>
+                  </Label>
+                  <Switch
+                    id="silence-trim-toggle"
+                    checked={silenceTrimEnabled}
+                    onCheckedChange={handleSilenceTrimToggle}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="silence-start-threshold" className="text-sm font-medium">
+                    Start Threshold: {silenceStartThreshold} dBFS
+                  </Label>
+                  <Slider
+                    id="silence-start-threshold"
+                    disabled={!silenceTrimEnabled}
+                    min={-80}
+                    max={-30}
+                    step={1}
+                    value={[silenceStartThreshold]}
+                    onValueChange={handleSilenceStartChange}
+                    className={!silenceTrimEnabled ? "opacity-50" : ""}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="silence-end-threshold" className="text-sm font-medium">
+                    End Threshold: {silenceEndThreshold} dBFS
+                  </Label>
+                  <Slider
+                    id="silence-end-threshold"
+                    disabled={!silenceTrimEnabled}
+                    min={-80}
+                    max={-20}
+                    step={1}
+                    value={[silenceEndThreshold]}
+                    onValueChange={handleSilenceEndChange}
+                    className={!silenceTrimEnabled ? "opacity-50" : ""}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="streaming-minutes" className="text-sm font-medium">
+                    Stream Tracks Longer Than: {streamingMinutes} min
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Long mixes and large files play straight from disk instead of being decoded into memory. They are only normalized and trimmed if analyzed before.
+                    </p>
+                  </Label>
+                  <Slider
+                    id="streaming-minutes"
+                    min={5}
+                    max={120}
+                    step={5}
+                    value={[streamingMinutes]}
+                    onValueChange={handleStreamingMinutesChange}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="streaming-megabytes" className="text-sm font-medium">
+                    Or Larger Than: {streamingMegabytes} MB
+                  </Label>
+                  <Slider
+                    id="streaming-megabytes"
+                    min={50}
+                    max={1000}
+                    step={50}
+                    value={[streamingMegabytes]}
+                    onValueChange={handleStreamingMegabytesChange}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <Label htmlFor="dead-air-timeout" className="text-sm font-medium">
+                    Dead-Air Watchdog: {deadAirTimeout > 0 ? `${deadAirTimeout}s` : 'Off'}
+                    <p className="text-xs text-muted-foreground font-normal mt-1">
+                      Alert and skip to the next track when the music stays silent this long while playing
+                    </p>
+                  </Label>
+                  <Slider
+                    id="dead-air-timeout"
+                    min={0}
+                    max={30}
+                    step={1}
+                    value={[deadAirTimeout]}
+                    onValueChange={handleDeadAirTimeoutChange}
+                  />
+                </div>
+
+                {isElectron && (
+                  <div className="flex items-center justify-between gap-4">
+                    <Label className="text-sm font-medium min-w-0">
+                      Recording Folder
+                      <p className="text-xs text-muted-foreground font-normal mt-1 truncate" title={recordingFolder ?? undefined}>
+                        {recordingFolder ?? 'Not chosen yet — you will be asked when you first record'}
+                      </p>
+                    </Label>
+                    <Button variant="outline" size="sm" onClick={handleChooseRecordingFolder} className="shrink-0">
+                      Choose…
+                    </Button>
+                  </div>
+                )}
               </div>
-              <Slider
-                id="crossfade-duration"
-                disabled={!crossfadeEnabled}
-                min={1}
-                max={10}
-                step={0.5}
-                value={[crossfadeDuration]}
-                onValueChange={(value) => handleDurationChange(value)}
-                className={!crossfadeEnabled ? "opacity-50" : ""}
-              />
-            </div>
+            </ScrollArea>
           </TabsContent>
           
           <TabsContent value="automation" className="mt-6">
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { FolderOpen, MoreVertical, Square } from "lucide-react";
+import audioManager from '@/utils/audioContext';
+import stingerPads, { PAD_COUNT } from '@/utils/music/stingerPads';
+import { isLibraryAvailable } from '@/utils/fileSource';
+
+// Number-row key for each pad: 1–9, then 0
+const padKey = (index: number) => String((index + 1) % 10);
+
+export function StingerPads() {
+  const [pads, setPads] = useState(() => stingerPads.getPads());
+  const [clipNames, setClipNames] = useState(() => stingerPads.getClipNames());
+  const [folderName, setFolderName] = useState(() => stingerPads.getFolderName());
+  const [volume, setVolume] = useState(() => audioManager.getStingerVolume());
+  const [autoDuck, setAutoDuck] = useState(() => audioManager.isStingerAutoDuck());
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsub = stingerPads.onChange(() => {
+      setPads(stingerPads.getPads());
+      setClipNames(stingerPads.getClipNames());
+      setFolderName(stingerPads.getFolderName());
+    });
+    return unsub;
+  }, []);
+
+  // Number-row hotkeys — 1…9, 0 fire the matching pad
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const match = /^Digit(\d)$/.exec(e.code);
+      if (!match) return;
+      const digit = Number(match[1]);
+      const index = digit === 0 ? 9 : digit - 1;
+      if (index < PAD_COUNT) {
+        e.preventDefault();
+        stingerPads.triggerPad(index);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleFolderInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { files } = e.target;
+    if (!files || files.length === 0) return;
+    await stingerPads.loadFolder(files);
+    if (folderInputRef.current) folderInputRef.current.value = '';
+  };
+
+  const handleVolumeChange = (value: number[]) => {
+    setVolume(value[0]);
+    stingerPads.setVolume(value[0]);
+  };
+
+  const handleAutoDuckToggle = (enabled: boolean) => {
+    setAutoDuck(enabled);
+    stingerPads.setAutoDuck(enabled);
+  };
+
+  return (
+    <div className="bg-player-light rounded-xl p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-xl font-medium text-player-text">Sound Effects</h3>
+          {folderName && <p className="text-xs text-player-text/50">{folderName}</p>}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-player-text/60 hover:text-player-text"
+            title="Stop all sound effects"
+            onClick={() => stingerPads.stopAll()}
+          >
+            <Square size={16} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-player-text/60 hover:text-player-text"
+            title="Choose sound effects folder"
+            onClick={() => isLibraryAvailable() ? stingerPads.chooseFolder() : folderInputRef.current?.click()}
+          >
+            <FolderOpen size={16} />
+          </Button>
+          <input
+            type="file"
+            ref={folderInputRef}
+            onChange={handleFolderInputChange}
+            className="hidden"
+            // @ts-expect-error - non-standard directory selection attributes
+            webkitdirectory="true"
+            directory=""
+            multiple
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2">
+        {pads.map((name, index) => {
+          const available = name !== null && stingerPads.hasClip(name);
+          return (
+            <div
+              key={index}
+              onClick={() => available && stingerPads.triggerPad(index)}
+              className={`relative h-16 p-2 rounded-lg text-player-text bg-gray-100 dark:bg-slate-800 flex flex-col items-center justify-center text-center transition-all
+                ${available ? 'cursor-pointer hover:bg-gray-200 dark:hover:bg-slate-700 active:scale-95' : 'opacity-50'}`}
+            >
+              <span className="absolute top-1 left-1.5 text-[10px] font-mono text-player-text/50">{padKey(index)}</span>
+
+              {clipNames.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      className="absolute top-0.5 right-0.5 p-0.5 text-player-text/40 hover:text-player-text"
+                      title="Assign clip"
+                      onClick={e => e.stopPropagation()}
+                    >
+                      <MoreVertical size={12} />
+                    </button>
+                  </DropdownMenuTrigger>
+                  {/* Menu clicks bubble through the portal in React; keep them off the pad */}
+                  <DropdownMenuContent align="end" className="bg-player-light border-player-accent text-player-text max-h-72 overflow-y-auto" onClick={e => e.stopPropagation()}>
+                    <DropdownMenuItem className="cursor-pointer text-player-text/60" onClick={() => stingerPads.assignPad(index, null)}>
+                      Clear pad
+                    </DropdownMenuItem>
+                    {clipNames.map(clip => (
+                      <DropdownMenuItem
+                        key={clip}
+                        className={`cursor-pointer ${clip === name ? 'bg-player-accent/30' : ''}`}
+                        onClick={() => stingerPads.assignPad(index, clip)}
+                      >
+                        {clip}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+
+              <span className="text-xs font-medium line-clamp-2 break-all">{name ?? '—'}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {clipNames.length === 0 && (
+        <p className="text-xs text-player-text/50 mt-3 text-center">
+          Choose a folder of short clips to load the pads
+        </p>
+      )}
+
+      <div className="flex items-center gap-4 mt-4">
+        <Slider value={[volume]} min={0} max={1} step={0.01} onValueChange={handleVolumeChange} className="flex-1 [&_.absolute]:bg-gray-500" />
+        <span className="text-xs text-player-text/60 w-8 text-right tabular-nums shrink-0">{Math.round(volume * 100)}%</span>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch id="stinger-auto-duck" checked={autoDuck} onCheckedChange={handleAutoDuckToggle} />
+          <Label htmlFor="stinger-auto-duck" className="text-xs text-player-text/70">Duck music</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StingerPads;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  TransitionReason,
+  TransitionProfile,
+  TransitionStyle,
+  TRANSITION_REASONS,
+  TRANSITION_STYLES
+} from '@/utils/audio/transitions';
+
+interface TransitionSettingsProps {
+  profiles: Record<TransitionReason, TransitionProfile>;
+  onChange: (reason: TransitionReason, profile: TransitionProfile) => void;
+}
+
+const reasonLabels: Record<TransitionReason, { label: string; description: string }> = {
+  manual: { label: 'Manual Selection', description: 'Clicking a playlist or the skip button' },
+  automation: { label: 'Automation Trigger', description: 'Companion / FMS event requests' },
+  queue: { label: 'Queue Advance', description: 'The next queued track after a track ends' },
+  natural: { label: 'Natural End', description: 'Returning to the default playlist after a track ends' },
+};
+
+const styleLabels: Record<TransitionStyle, string> = {
+  crossfade: 'Crossfade',
+  dip: 'Quick Dip',
+  cut: 'Hard Cut',
+};
+
+export function TransitionSettings({ profiles, onChange }: TransitionSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-medium">Transitions</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Crossfade uses the duration and curve above
+        </p>
+      </div>
+
+      {TRANSITION_REASONS.map(reason => {
+        const profile = profiles[reason];
+        return (
+          <div key={reason} className="space-y-3 p-4 border border-border rounded-lg bg-card/50">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="text-sm font-medium">{reasonLabels[reason].label}</Label>
+                <p className="text-xs text-muted-foreground">{reasonLabels[reason].description}</p>
+              </div>
+              <Select
+                value={profile.style}
+                onValueChange={(value) => onChange(reason, { ...profile, style: value as TransitionStyle })}
+              >
+                <SelectTrigger className="w-36 h-8" aria-label={`${reasonLabels[reason].label} transition`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSITION_STYLES.map(style => (
+                    <SelectItem key={style} value={style}>
+                      {styleLabels[style]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {profile.style === 'dip' && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">
+                  Dip Duration: {profile.dipDuration} seconds
+                </Label>
+                <Slider
+                  min={0.2}
+                  max={3}
+                  step={0.1}
+                  value={[profile.dipDuration]}
+                  onValueChange={(value) => onChange(reason, { ...profile, dipDuration: value[0] })}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TransitionSettings;
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WaveformPeaks } from '@/utils/audio/waveform';
+
+interface WaveformOverviewProps {
+  peaks: WaveformPeaks;
+  currentTime: number;
+  // Track position where the next-track transition starts, if known
+  transitionStart: number | null;
+  className?: string;
+}
+
+const PLAYED_COLOR = 'rgba(59, 130, 246, 0.9)';    // blue-500
+const UNPLAYED_COLOR = 'rgba(148, 163, 184, 0.55)'; // slate-400
+const MARKER_COLOR = '#f59e0b';                    // amber-500
+
+/**
+ * Min/max waveform of the current track, drawn behind the seek bar. The
+ * played part is highlighted and the transition start is marked.
+ */
+export function WaveformOverview({ peaks, currentTime, transitionStart, className }: WaveformOverviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+
+  // Redraw at the element's real pixel width
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const pixelWidth = Math.round(width * dpr);
+    const pixelHeight = Math.round(canvas.clientHeight * dpr);
+    if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+    }
+    ctx.clearRect(0, 0, pixelWidth, pixelHeight);
+
+    const columns = peaks.min.length;
+    const mid = pixelHeight / 2;
+    const playedX = peaks.duration > 0 ? (currentTime / peaks.duration) * pixelWidth : 0;
+
+    for (let x = 0; x < pixelWidth; x++) {
+      // Merge every column that falls into this pixel
+      const from = Math.floor((x / pixelWidth) * columns);
+      const to = Math.max(from + 1, Math.floor(((x + 1) / pixelWidth) * columns));
+      let lo = 0;
+      let hi = 0;
+      for (let c = from; c < to && c < columns; c++) {
+        if (peaks.min[c] < lo) lo = peaks.min[c];
+        if (peaks.max[c] > hi) hi = peaks.max[c];
+      }
+      const top = mid - hi * mid;
+      const height = Math.max(1, (hi - lo) * mid);
+      ctx.fillStyle = x < playedX ? PLAYED_COLOR : UNPLAYED_COLOR;
+      ctx.fillRect(x, top, 1, height);
+    }
+
+    if (transitionStart !== null && peaks.duration > 0) {
+      const markerX = Math.round((transitionStart / peaks.duration) * pixelWidth);
+      ctx.fillStyle = MARKER_COLOR;
+      ctx.fillRect(markerX - Math.round(dpr), 0, Math.max(1, Math.round(2 * dpr)), pixelHeight);
+    }
+  }, [peaks, currentTime, transitionStart, width]);
+
+  return <canvas ref={canvasRef} className={className} />;
+}
+
+export default WaveformOverview;
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import musicLibrary from '@/utils/musicLibrary';
+import audioManager from '@/utils/audioContext';
+import stingerPads from '@/utils/music/stingerPads';
 import { toast } from '@/hooks/use-toast';
 
 export interface AutomationConfig {
@@ -62,6 +64,16 @@ export const useAutomationServer = () => {
     }
   }, []);
 
+  // Keep the next track of every active trigger's playlist decoded so triggers start instantly
+  useEffect(() => {
+    const folders = config.enabled
+      ? (Object.keys(config.triggers) as Array<keyof AutomationConfig['triggers']>)
+          .filter(key => config.triggers[key])
+          .map(key => config.playlistMappings[key])
+      : [];
+    musicLibrary.setPreloadFolders(folders);
+  }, [config]);
+
   // Save config and sync to localStorage
   const saveConfig = useCallback((newConfig: AutomationConfig) => {
     setConfig(newConfig);
@@ -69,17 +81,36 @@ export const useAutomationServer = () => {
   }, []);
 
   // Handle an incoming trigger (called from IPC listener or legacy path)
-  const handleTrigger = useCallback(async (trigger: string) => {
+  const handleTrigger = useCallback(async (trigger: string, payload?: AutomationTriggerPayload): Promise<AutomationTriggerResult | void> => {
     const cfg = configRef.current;
     const triggerKey = trigger as keyof typeof cfg.triggers;
 
+    // Ducking is always available while the server runs; it is not mapped to a playlist
+    if (trigger === 'duck' || trigger === 'unduck') {
+      if (!cfg.enabled) return;
+      if (trigger === 'duck') audioManager.duck(payload?.release);
+      else audioManager.unduck();
+      console.log(`[Automation] Triggered: ${trigger}`);
+      return;
+    }
+
+    // The result becomes the HTTP response, so callers learn when nothing played
+    if (trigger === 'stinger') {
+      if (!cfg.enabled) return { success: false, error: 'Automation is disabled' };
+      if (!payload?.name) return { success: false, error: 'No stinger name given' };
+      if (!stingerPads.hasClips()) return { success: false, error: 'No sound effects folder loaded' };
+      const played = await stingerPads.triggerByName(payload.name);
+      console.log(`[Automation] Triggered: stinger ${payload.name}${played ? '' : ' (no matching clip)'}`);
+      return played ? { success: true } : { success: false, error: `No clip loaded for "${payload.name}"` };
+    }
+
     if (!cfg.enabled || !cfg.triggers[triggerKey]) return;
 
     const playlistName = cfg.playlistMappings[triggerKey];
     if (!playlistName) return;
 
     try {
-      await musicLibrary.playRandomTrackFromFolder(playlistName);
+      await musicLibrary.playRandomTrackFromFolder(playlistName, 'automation');
       console.log(`[Automation] Triggered: ${trigger} → ${playlistName}`);
     } catch (error) {
       console.error('[Automation] Error playing playlist:', error);
@@ -110,7 +141,7 @@ export const useAutomationServer = () => {
       }
 
       // Register IPC trigger listener
-      api.onTrigger((trigger: string) => handleTrigger(trigger));
+      api.onTrigger((trigger: string, payload?: AutomationTriggerPayload) => handleTrigger(trigger, payload));
       setIsRunning(true);
 
       toast({
@@ -132,6 +163,9 @@ export const useAutomationServer = () => {
     console.log(`  POST http://localhost:${config.port}/api/match-start`);
     console.log(`  POST http://localhost:${config.port}/api/match-end`);
     console.log(`  POST http://localhost:${config.port}/api/post-result`);
+    console.log(`  POST http://localhost:${config.port}/api/duck[?release=<seconds>]`);
+    console.log(`  POST http://localhost:${config.port}/api/unduck`);
+    console.log(`  POST http://localhost:${config.port}/api/stinger/<name or pad number>`);
   }, [config, isRunning, handleTrigger]);
 
   // Stop the HTTP server
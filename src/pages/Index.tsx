@@ -4,10 +4,14 @@ import { Button } from '@/components/ui/button';
 import MusicPlayer from '@/components/MusicPlayer';
 import PlaylistSelector from '@/components/PlaylistSelector';
 import SearchAndQueue from '@/components/SearchAndQueue';
+import StingerPads from '@/components/StingerPads';
+import DeadAirAlert from '@/components/DeadAirAlert';
+import RecordButton from '@/components/RecordButton';
 import FolderSelector from '@/components/FolderSelector';
 import SettingsDialog from '@/components/SettingsDialog';
 import HowToDialog from '@/components/HowToDialog';
 import musicLibrary from '@/utils/musicLibrary';
+import { isLibraryAvailable } from '@/utils/fileSource';
 import { useAutomationServer } from '@/hooks/useAutomationServer';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -24,6 +28,8 @@ function getInitialTheme(): 'dark' | 'light' {
 
 const Index = () => {
   const [showFolderSelector, setShowFolderSelector] = useState(!musicLibrary.hasMusic());
+  // Electron: the library folders from the last session are reloaded on startup
+  const [restoringLibrary, setRestoringLibrary] = useState(() => isLibraryAvailable() && !musicLibrary.hasMusic());
   const [currentFolder, setCurrentFolder] = useState<string | null>(
     musicLibrary.getCurrentFolder() || musicLibrary.getDefaultFolder()
   );
@@ -63,6 +69,18 @@ const Index = () => {
     setShowFolderSelector(true);
   };
 
+  useEffect(() => {
+    if (!isLibraryAvailable() || musicLibrary.hasMusic()) return;
+    musicLibrary.restoreLibrary()
+      .then(restored => {
+        if (!restored) return;
+        setShowFolderSelector(false);
+        setCurrentFolder(musicLibrary.getDefaultFolder());
+      })
+      .catch(error => console.error('Error restoring library:', error))
+      .finally(() => setRestoringLibrary(false));
+  }, []);
+
   const handleSearchToggle = () => setSearchOpen(o => !o);
 
   // Auto-collapse the search panel when the queue drains to zero
@@ -132,6 +150,7 @@ const Index = () => {
               <FolderPlus size={20} />
             </Button>
           )}
+          <RecordButton />
           <SettingsDialog
             automationConfig={automationConfig}
             automationSaveConfig={automationSaveConfig}
@@ -150,9 +169,15 @@ const Index = () => {
         </div>
       </header>
 
+      <DeadAirAlert />
+
       {/* ── Main content ───────────────────────────────────────────────── */}
       <main className="max-w-6xl mx-auto">
-        {showFolderSelector ? (
+        {restoringLibrary ? (
+          <div className="text-center p-8 text-gray-500 dark:text-gray-400 animate-pulse">
+            Loading your music library…
+          </div>
+        ) : showFolderSelector ? (
           <div className="max-w-4xl mx-auto space-y-4">
             {musicLibrary.hasMusic() && (
               <Button
@@ -174,11 +199,12 @@ const Index = () => {
            */
           <div className="lg:grid lg:grid-cols-[5fr_7fr] lg:gap-6 lg:items-start space-y-6 lg:space-y-0">
 
-            {/* ── Left column: Player ────────────────────────────────── */}
-            <div>
+            {/* ── Left column: Player + sound effects ────────────────── */}
+            <div className="space-y-6">
               <MusicPlayer
                 onRequestFolderSelect={handleRequestFolderSelect}
               />
+              <StingerPads />
             </div>
 
             {/* ── Right column: Search/Queue + Playlists ─────────────── */}
@@ -8,6 +8,41 @@ declare namespace JSX {
   }
 }
 
+// Options sent along with an automation request
+interface AutomationTriggerPayload {
+  release?: number; // 'duck': seconds until the duck releases itself
+  name?: string;    // 'stinger': clip name or pad number
+}
+
+// Reported back to the HTTP caller for 'stinger' triggers
+interface AutomationTriggerResult {
+  success: boolean;
+  error?: string;
+}
+
+// An audio file under a music library folder, as listed by the Electron main process
+interface LibraryFileEntry {
+  path: string;          // absolute
+  relativePath: string;  // "<root folder>/<sub folders>/<file>", like webkitRelativePath
+  size: number;
+  lastModified: number;
+  type: string;
+}
+
+// Files that appeared, disappeared or moved under a watched library folder
+interface LibraryChange {
+  root: string;
+  added: LibraryFileEntry[];  // new files, or known files whose contents changed
+  removed: string[];          // relativePaths
+  renamed: Array<{ from: string; to: LibraryFileEntry }>;
+}
+
+// AudioContext output selection (Chromium 110+), not yet in the DOM typings
+interface AudioContext {
+  readonly sinkId?: string | { type: 'none' };
+  setSinkId?: (sinkId: string | { type: 'none' }) => Promise<void>;
+}
+
 // For the Web Audio API types
 interface Window {
   webkitAudioContext: typeof AudioContext;
@@ -16,10 +51,27 @@ interface Window {
     isElectron: true;
     getVersion: () => Promise<string>;
     platform: string;
+    store: {
+      load: (name: string) => Promise<unknown>;
+      save: (name: string, data: unknown) => Promise<void>;
+    };
+    library: {
+      chooseFolder: () => Promise<string | null>;
+      scan: (root: string) => Promise<LibraryFileEntry[] | null>;
+      forget: (root: string) => Promise<void>;
+      scanStingers: (root: string) => Promise<LibraryFileEntry[] | null>;
+      onChange: (callback: (change: LibraryChange) => void) => void;
+    };
+    recording: {
+      chooseFolder: () => Promise<string | null>;
+      getFolder: () => Promise<string | null>;
+      append: (fileName: string, data: Uint8Array) => Promise<void>;
+      write: (fileName: string, text: string) => Promise<void>;
+    };
     automation: {
       start: (port: number) => Promise<{ success: boolean; error?: string }>;
       stop: () => Promise<{ success: boolean }>;
-      onTrigger: (callback: (trigger: string) => void) => void;
+      onTrigger: (callback: (trigger: string, payload?: AutomationTriggerPayload) => void | Promise<AutomationTriggerResult | void>) => void;
       removeTriggerListeners: () => void;
     };
   };
@@ -0,0 +1,65 @@
+import { loadDocument, saveDocument } from '../persistentStore';
+
+/** Per-track analysis results that are expensive to recompute. */
+export interface TrackAnalysis {
+  loudness: number;   // integrated loudness, LUFS (-Infinity for silence)
+  peak: number;       // sample peak, linear (1.0 = full scale)
+  truePeak: number;   // 4x-oversampled true peak, linear
+  duration: number;   // decoded duration, seconds
+  startTime: number;  // first audible point, seconds
+  endTime: number;    // last audible point, seconds
+  // Thresholds (dBFS) the silence bounds were detected with
+  silenceThresholds: { start: number; end: number };
+}
+
+const DOCUMENT_NAME = 'analysis-cache';
+const SAVE_DELAY_MS = 2000;
+
+// Persisted entries keyed by getAnalysisKey(); loaded once per session
+let entries: Map<string, TrackAnalysis> | null = null;
+let loadPromise: Promise<Map<string, TrackAnalysis>> | null = null;
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function loadEntries(): Promise<Map<string, TrackAnalysis>> {
+  if (!loadPromise) {
+    loadPromise = loadDocument<Record<string, TrackAnalysis>>(DOCUMENT_NAME).then(doc => {
+      entries = new Map();
+      for (const [key, value] of Object.entries(doc ?? {})) {
+        // JSON has no -Infinity; silent tracks come back as null
+        entries.set(key, { ...value, loudness: typeof value.loudness === 'number' ? value.loudness : -Infinity });
+      }
+      console.log(`[AnalysisCache] Loaded ${entries.size} cached track analyses`);
+      return entries;
+    });
+  }
+  return loadPromise;
+}
+
+function scheduleSave(): void {
+  if (saveTimeout) clearTimeout(saveTimeout);
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    if (entries) saveDocument(DOCUMENT_NAME, Object.fromEntries(entries));
+  }, SAVE_DELAY_MS);
+}
+
+// A track is identified by where it lives plus its size and modification time,
+// so a re-encoded or replaced file is analyzed again.
+export function getAnalysisKey(file: File): string {
+  return `${file.webkitRelativePath || file.name}|${file.size}|${file.lastModified}`;
+}
+
+export async function getCachedAnalysis(key: string): Promise<TrackAnalysis | null> {
+  const loaded = await loadEntries();
+  return loaded.get(key) ?? null;
+}
+
+export async function setCachedAnalysis(key: string, analysis: TrackAnalysis): Promise<void> {
+  const loaded = await loadEntries();
+  loaded.set(key, analysis);
+  scheduleSave();
+}
+
+// Warm the cache as soon as the module is imported so the first track
+// of the session does not wait on disk/IndexedDB.
+loadEntries();
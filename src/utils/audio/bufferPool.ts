@@ -0,0 +1,63 @@
+// Decoded AudioBuffers kept ready for instant playback.
+//
+// Decoded PCM is large (a 4-minute stereo track at 48 kHz is ~90 MB as
+// Float32), so the pool is bounded by bytes rather than entry count and
+// evicts the least recently used buffer first.
+
+export function getBufferBytes(buffer: AudioBuffer): number {
+  return buffer.length * buffer.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+}
+
+export class BufferPool {
+  // Map iteration order doubles as recency order: oldest first
+  private entries: Map<string, AudioBuffer> = new Map();
+  private totalBytes = 0;
+
+  constructor(private maxBytes: number) {}
+
+  public get(key: string): AudioBuffer | null {
+    const buffer = this.entries.get(key);
+    if (!buffer) return null;
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, buffer);
+    return buffer;
+  }
+
+  public has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  public set(key: string, buffer: AudioBuffer): void {
+    this.delete(key);
+    const bytes = getBufferBytes(buffer);
+    // A single buffer larger than the whole pool is not worth holding
+    if (bytes > this.maxBytes) return;
+
+    this.entries.set(key, buffer);
+    this.totalBytes += bytes;
+
+    for (const [oldKey, oldBuffer] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.entries.delete(oldKey);
+      this.totalBytes -= getBufferBytes(oldBuffer);
+      console.log(`[BufferPool] Evicted ${oldKey}`);
+    }
+  }
+
+  public delete(key: string): void {
+    const buffer = this.entries.get(key);
+    if (!buffer) return;
+    this.entries.delete(key);
+    this.totalBytes -= getBufferBytes(buffer);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  public getSize(): number {
+    return this.totalBytes;
+  }
+}
@@ -0,0 +1,54 @@
+// Output channel modes for PAs that are mono or only get one side of the
+// stereo feed. The master signal is split into its two channels and mixed
+// back together through a 2×2 gain matrix.
+
+// stereo: untouched
+// mono:   (L + R) / 2 on both outputs, so hard-panned parts don't disappear
+// left:   the mono sum on the left output only, right silent
+// right:  the mono sum on the right output only, left silent
+// swap:   left and right exchanged
+export type OutputMode = 'stereo' | 'mono' | 'left' | 'right' | 'swap';
+
+export const OUTPUT_MODES: OutputMode[] = ['stereo', 'mono', 'left', 'right', 'swap'];
+
+type Matrix = [[number, number], [number, number]]; // [input channel][output channel]
+
+const MATRICES: Record<OutputMode, Matrix> = {
+  stereo: [[1, 0], [0, 1]],
+  mono: [[0.5, 0.5], [0.5, 0.5]],
+  left: [[0.5, 0], [0.5, 0]],
+  right: [[0, 0.5], [0, 0.5]],
+  swap: [[0, 1], [1, 0]],
+};
+
+export class ChannelMapper {
+  public readonly input: ChannelSplitterNode;
+  public readonly output: ChannelMergerNode;
+  private gains: GainNode[][];
+
+  constructor(context: BaseAudioContext, mode: OutputMode = 'stereo') {
+    this.input = context.createChannelSplitter(2);
+    // Upmix a mono signal so both channels carry it
+    this.input.channelInterpretation = 'speakers';
+    this.output = context.createChannelMerger(2);
+
+    this.gains = [0, 1].map(from =>
+      [0, 1].map(to => {
+        const gain = context.createGain();
+        this.input.connect(gain, from);
+        gain.connect(this.output, 0, to);
+        return gain;
+      })
+    );
+    this.setMode(mode);
+  }
+
+  public setMode(mode: OutputMode): void {
+    const matrix = MATRICES[mode];
+    for (let from = 0; from < 2; from++) {
+      for (let to = 0; to < 2; to++) {
+        this.gains[from][to].gain.value = matrix[from][to];
+      }
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// Three-band master EQ for adapting the mix to the room: a low shelf, a
+// peaking mid and a high shelf at fixed frequencies.
+
+export type EqBand = 'low' | 'mid' | 'high';
+
+export const EQ_BANDS: EqBand[] = ['low', 'mid', 'high'];
+
+export type EqGains = Record<EqBand, number>; // dB per band
+
+export const EQ_MAX_GAIN = 12; // dB, either direction
+
+export const FLAT_EQ: EqGains = { low: 0, mid: 0, high: 0 };
+
+interface BandConfig {
+  type: BiquadFilterType;
+  frequency: number; // Hz
+  q: number;
+}
+
+const BAND_CONFIG: Record<EqBand, BandConfig> = {
+  low: { type: 'lowshelf', frequency: 150, q: 0.7 },
+  // Wide bell around the vocal range
+  mid: { type: 'peaking', frequency: 1000, q: 0.8 },
+  high: { type: 'highshelf', frequency: 6000, q: 0.7 },
+};
+
+export function getBandFrequency(band: EqBand): number {
+  return BAND_CONFIG[band].frequency;
+}
+
+export function clampEqGain(db: number): number {
+  return Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, db));
+}
+
+/** Filters for each band, chained low → mid → high. Connect to `low`, take output from `high`. */
+export function createEqualizer(context: BaseAudioContext, gains: EqGains): Record<EqBand, BiquadFilterNode> {
+  const filters = {} as Record<EqBand, BiquadFilterNode>;
+  for (const band of EQ_BANDS) {
+    const { type, frequency, q } = BAND_CONFIG[band];
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = q;
+    filter.gain.value = gains[band];
+    filters[band] = filter;
+  }
+  filters.low.connect(filters.mid);
+  filters.mid.connect(filters.high);
+  return filters;
+}
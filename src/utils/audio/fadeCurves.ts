@@ -0,0 +1,42 @@
+// Gain curves for crossfades, rendered for AudioParam.setValueCurveAtTime().
+
+export type CrossfadeCurve = 'linear' | 'equalPower' | 'exponential' | 'sCurve';
+
+export const CROSSFADE_CURVES: CrossfadeCurve[] = ['linear', 'equalPower', 'exponential', 'sCurve'];
+
+const CURVE_POINTS = 256;
+
+// Fade-in shape for t in [0, 1], always starting at 0 and ending at 1
+function shape(curve: CrossfadeCurve, t: number): number {
+  switch (curve) {
+    case 'equalPower':
+      // sin/cos pair keeps summed power constant, so there's no mid-fade dip
+      return Math.sin(t * Math.PI / 2);
+    case 'exponential':
+      // Even steps in dB across a 60 dB range, pinned to 0 at the start
+      return (Math.pow(1000, t) - 1) / 999;
+    case 'sCurve':
+      return (1 - Math.cos(t * Math.PI)) / 2;
+    case 'linear':
+    default:
+      return t;
+  }
+}
+
+/** Gain values rising from 0 to `target`. */
+export function createFadeInCurve(curve: CrossfadeCurve, target: number): Float32Array {
+  const values = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    values[i] = target * shape(curve, i / (CURVE_POINTS - 1));
+  }
+  return values;
+}
+
+/** Gain values falling from `from` to 0 (the time-mirror of the fade-in). */
+export function createFadeOutCurve(curve: CrossfadeCurve, from: number): Float32Array {
+  const values = new Float32Array(CURVE_POINTS);
+  for (let i = 0; i < CURVE_POINTS; i++) {
+    values[i] = from * shape(curve, 1 - i / (CURVE_POINTS - 1));
+  }
+  return values;
+}
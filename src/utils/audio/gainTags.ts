@@ -0,0 +1,60 @@
+// Loudness tags written by ReplayGain scanners, EBU R128 taggers and iTunes
+// Sound Check, normalised to ReplayGain 2.0 terms.
+
+/** Gains in dB relative to the ReplayGain reference; peaks linear (1.0 = full scale). */
+export interface GainTags {
+  trackGain?: number;
+  albumGain?: number;
+  trackPeak?: number;
+  albumPeak?: number;
+}
+
+// Where normalization gets a track's loudness from
+// tags:       loudness tags only; untagged tracks are not normalized
+// analysis:   our own measurement of the decoded audio
+// tagsFirst:  tags when present, otherwise analysis
+export type NormalizationSource = 'tags' | 'analysis' | 'tagsFirst';
+
+export const NORMALIZATION_SOURCES: NormalizationSource[] = ['tagsFirst', 'tags', 'analysis'];
+
+// ReplayGain 2.0 scanners measure against -18 LUFS
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+// R128_*_GAIN tags are relative to -23 LUFS
+const R128_REFERENCE_LUFS = -23;
+
+/** Integrated loudness (LUFS) implied by a gain, or null if the track carries none. Track gain wins over album gain. */
+export function getTaggedLoudness(tags: GainTags): number | null {
+  const gain = tags.trackGain ?? tags.albumGain;
+  return typeof gain === 'number' ? REPLAYGAIN_REFERENCE_LUFS - gain : null;
+}
+
+export function getTaggedPeak(tags: GainTags): number | null {
+  const peak = typeof tags.trackGain === 'number' ? tags.trackPeak : (tags.albumPeak ?? tags.trackPeak);
+  return typeof peak === 'number' && peak > 0 ? peak : null;
+}
+
+/** R128_TRACK_GAIN / R128_ALBUM_GAIN: Q7.8 fixed point dB, e.g. "-512" = -2 dB. */
+export function parseR128Gain(value: string): number | null {
+  const raw = parseInt(value, 10);
+  if (!isFinite(raw)) return null;
+  return raw / 256 + (REPLAYGAIN_REFERENCE_LUFS - R128_REFERENCE_LUFS);
+}
+
+/**
+ * iTunNORM: ten hex words. Words 0/1 are the left/right Sound Check
+ * adjustments (1000 = 0 dB, higher is louder), words 6/7 the peak samples
+ * (32768 = full scale).
+ */
+export function parseITunNorm(value: string): Pick<GainTags, 'trackGain' | 'trackPeak'> | null {
+  const words = value.trim().split(/\s+/).map(word => parseInt(word, 16));
+  if (words.length < 10 || words.some(word => !isFinite(word))) return null;
+
+  const adjustment = Math.max(words[0], words[1]);
+  if (adjustment <= 0) return null;
+  const peak = Math.max(words[6], words[7]) / 32768;
+  return {
+    trackGain: -10 * Math.log10(adjustment / 1000),
+    trackPeak: peak > 0 ? peak : undefined,
+  };
+}
@@ -0,0 +1,89 @@
+// Peak / RMS metering of the signal that leaves the app, with peak-hold and a
+// latching clip indicator. Levels are computed on demand from the most recent
+// analyser window, so callers poll at whatever rate they draw (e.g. rAF).
+
+const WINDOW_SIZE = 2048;          // samples per reading (~43 ms at 48 kHz)
+const PEAK_HOLD_MS = 1500;         // how long a peak-hold marker stays put
+const PEAK_HOLD_FALL_DB_PER_S = 20;
+const CLIP_LEVEL = 0.999;          // |sample| at or above this counts as clipping
+
+/** Levels of one output channel, in dBFS (-Infinity for silence). */
+export interface ChannelLevel {
+  peak: number;
+  rms: number;
+  peakHold: number;
+}
+
+export interface OutputLevels {
+  channels: ChannelLevel[]; // [left, right]
+  clipped: boolean;         // latched until the clip indicator is reset
+}
+
+interface HoldState {
+  level: number; // dBFS
+  at: number;    // performance.now() when the hold was set
+}
+
+function toDb(linear: number): number {
+  return linear > 0 ? 20 * Math.log10(linear) : -Infinity;
+}
+
+export class OutputMeter {
+  private analysers: AnalyserNode[];
+  private samples = new Float32Array(WINDOW_SIZE);
+  private holds: HoldState[];
+  private clipped = false;
+
+  constructor(context: AudioContext, input: AudioNode) {
+    const splitter = context.createChannelSplitter(2);
+    // Upmix a mono output so both meters move
+    splitter.channelInterpretation = 'speakers';
+    input.connect(splitter);
+
+    this.analysers = [0, 1].map(channel => {
+      const analyser = context.createAnalyser();
+      analyser.fftSize = WINDOW_SIZE;
+      splitter.connect(analyser, channel);
+      return analyser;
+    });
+    this.holds = this.analysers.map(() => ({ level: -Infinity, at: 0 }));
+  }
+
+  public getLevels(): OutputLevels {
+    const now = performance.now();
+    const channels = this.analysers.map((analyser, i) => {
+      analyser.getFloatTimeDomainData(this.samples);
+
+      let peak = 0;
+      let sumSquares = 0;
+      for (const sample of this.samples) {
+        const abs = Math.abs(sample);
+        if (abs > peak) peak = abs;
+        sumSquares += sample * sample;
+      }
+      if (peak >= CLIP_LEVEL) this.clipped = true;
+
+      const peakDb = toDb(peak);
+      const hold = this.holds[i];
+      // Let the hold marker fall once it has been held long enough
+      const elapsed = now - hold.at - PEAK_HOLD_MS;
+      const heldLevel = elapsed > 0 ? hold.level - (elapsed / 1000) * PEAK_HOLD_FALL_DB_PER_S : hold.level;
+      if (peakDb >= heldLevel) {
+        hold.level = peakDb;
+        hold.at = now;
+      }
+
+      return {
+        peak: peakDb,
+        rms: toDb(Math.sqrt(sumSquares / this.samples.length)),
+        peakHold: Math.max(peakDb, heldLevel)
+      };
+    });
+
+    return { channels, clipped: this.clipped };
+  }
+
+  public resetClip(): void {
+    this.clipped = false;
+  }
+}
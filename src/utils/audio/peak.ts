@@ -0,0 +1,63 @@
+// Peak level measurement.
+
+/** Highest absolute sample value across all channels (1.0 = full scale). */
+export function measureSamplePeak(buffer: AudioBuffer): number {
+  let peak = 0;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) {
+      const v = Math.abs(data[i]);
+      if (v > peak) peak = v;
+    }
+  }
+  return peak;
+}
+
+// 4x oversampling interpolation (BS.1770 Annex 2 style): windowed-sinc
+// filters for the three in-between phases at 1/4, 2/4 and 3/4 of a sample.
+const OVERSAMPLE = 4;
+const HALF_TAPS = 8;
+
+const interpolationPhases: Float64Array[] = (() => {
+  const phases: Float64Array[] = [];
+  for (let p = 1; p < OVERSAMPLE; p++) {
+    const frac = p / OVERSAMPLE;
+    const taps = new Float64Array(HALF_TAPS * 2);
+    for (let k = 0; k < taps.length; k++) {
+      const t = k - (HALF_TAPS - 1) - frac; // distance from the interpolated point
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * t / HALF_TAPS); // Hann
+      taps[k] = sinc * window;
+    }
+    phases.push(taps);
+  }
+  return phases;
+})();
+
+/**
+ * Estimates the true (inter-sample) peak by 4x oversampling. Only the
+ * stretches where a sample is within 6 dB of the sample peak are
+ * interpolated, since an inter-sample over can only appear next to them.
+ */
+export function measureTruePeak(buffer: AudioBuffer, samplePeak = measureSamplePeak(buffer)): number {
+  if (samplePeak === 0) return 0;
+  const candidate = samplePeak / 2;
+  let peak = samplePeak;
+
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    const last = data.length - HALF_TAPS;
+    for (let i = HALF_TAPS - 1; i < last; i++) {
+      if (Math.abs(data[i]) < candidate && Math.abs(data[i + 1]) < candidate) continue;
+
+      const base = i - (HALF_TAPS - 1);
+      for (const taps of interpolationPhases) {
+        let v = 0;
+        for (let k = 0; k < taps.length; k++) v += taps[k] * data[base + k];
+        v = Math.abs(v);
+        if (v > peak) peak = v;
+      }
+    }
+  }
+  return peak;
+}
@@ -0,0 +1,48 @@
+// Leading/trailing silence detection.
+
+const WINDOW_SECONDS = 0.01;
+
+export interface SilenceBounds {
+  startTime: number; // first audible point, seconds
+  endTime: number;   // last audible point, seconds
+}
+
+/**
+ * Finds the first 10 ms window whose peak (across all channels) rises above
+ * `startThresholdDb` dBFS and the last one above `endThresholdDb` dBFS. The end
+ * threshold is usually higher so long fade-out tails count as silence too.
+ * A buffer that never crosses the thresholds is reported as audible from
+ * start to end so it still plays normally.
+ */
+export function detectSilenceBounds(buffer: AudioBuffer, startThresholdDb: number, endThresholdDb: number): SilenceBounds {
+  const startThreshold = Math.pow(10, startThresholdDb / 20);
+  const endThreshold = Math.pow(10, endThresholdDb / 20);
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * WINDOW_SECONDS));
+  const windowCount = Math.ceil(buffer.length / windowSize);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+  const isAudible = (w: number, threshold: number): boolean => {
+    const from = w * windowSize;
+    const to = Math.min(buffer.length, from + windowSize);
+    for (const data of channels) {
+      for (let i = from; i < to; i++) {
+        if (Math.abs(data[i]) > threshold) return true;
+      }
+    }
+    return false;
+  };
+
+  let first = 0;
+  while (first < windowCount && !isAudible(first, startThreshold)) first++;
+  if (first === windowCount) {
+    return { startTime: 0, endTime: buffer.duration };
+  }
+
+  let last = windowCount - 1;
+  while (last > first && !isAudible(last, endThreshold)) last--;
+
+  return {
+    startTime: (first * windowSize) / buffer.sampleRate,
+    endTime: Math.min(buffer.length, (last + 1) * windowSize) / buffer.sampleRate,
+  };
+}
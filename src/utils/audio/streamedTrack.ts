@@ -0,0 +1,58 @@
+// Long tracks (hour-long mixes, big WAVs) are played straight from the file
+// through a media element instead of being decoded into memory up front.
+
+import { LibraryFile, getFileUrl, releaseFileUrl } from '../fileSource';
+
+/** A track that plays through a media element rather than a decoded buffer. */
+export interface StreamedTrack {
+  kind: 'stream';
+  file: File;
+  duration: number; // seconds, from the container headers
+}
+
+/** What loadTrack() hands back: a decoded buffer or a streamed file. */
+export type PlayableTrack = AudioBuffer | StreamedTrack;
+
+export function isStreamedTrack(track: PlayableTrack): track is StreamedTrack {
+  return (track as StreamedTrack).kind === 'stream';
+}
+
+// Reads the duration from the file's headers without decoding any audio.
+// Resolves to NaN when the browser cannot tell.
+export function probeDuration(file: File): Promise<number> {
+  return new Promise(resolve => {
+    const element = new Audio();
+    const url = getFileUrl(file);
+    const finish = (duration: number) => {
+      element.removeAttribute('src');
+      element.load();
+      releaseFileUrl(url);
+      resolve(duration);
+    };
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => finish(element.duration);
+    element.onerror = () => finish(NaN);
+    element.src = url;
+  });
+}
+
+// A media element ready to stream the file; the caller routes it into the graph
+export function createStreamElement(file: File): HTMLAudioElement {
+  const element = new Audio();
+  element.preload = 'auto';
+  // Library files are served from another origin; without CORS the element
+  // would feed silence into the audio graph
+  if (file instanceof LibraryFile) element.crossOrigin = 'anonymous';
+  element.src = getFileUrl(file);
+  return element;
+}
+
+// Stops the element and frees its object URL and media resources
+export function releaseStreamElement(element: HTMLAudioElement): void {
+  element.onended = null;
+  element.onerror = null;
+  element.pause();
+  releaseFileUrl(element.src);
+  element.removeAttribute('src');
+  element.load();
+}
@@ -0,0 +1,23 @@
+// How one track hands over to the next, depending on why the change happened.
+
+export type TransitionReason = 'manual' | 'automation' | 'queue' | 'natural';
+
+// crossfade: overlap using the crossfade duration and curve
+// dip:       quick fade-out of the old track, then a quick fade-in of the new one
+// cut:       stop the old track and start the new one immediately
+export type TransitionStyle = 'crossfade' | 'dip' | 'cut';
+
+export interface TransitionProfile {
+  style: TransitionStyle;
+  dipDuration: number; // seconds, total for fade-out + fade-in (dip style only)
+}
+
+export const TRANSITION_REASONS: TransitionReason[] = ['manual', 'automation', 'queue', 'natural'];
+export const TRANSITION_STYLES: TransitionStyle[] = ['crossfade', 'dip', 'cut'];
+
+export const DEFAULT_TRANSITION_PROFILES: Record<TransitionReason, TransitionProfile> = {
+  manual: { style: 'dip', dipDuration: 0.5 },
+  automation: { style: 'dip', dipDuration: 0.5 },
+  queue: { style: 'crossfade', dipDuration: 0.5 },
+  natural: { style: 'crossfade', dipDuration: 0.5 },
+};
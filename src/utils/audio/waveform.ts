@@ -0,0 +1,35 @@
+// Waveform overview: the min/max sample of every column across the track,
+// computed once per decoded buffer and drawn at any width by merging columns.
+
+export const WAVEFORM_COLUMNS = 1200;
+
+export interface WaveformPeaks {
+  min: Float32Array; // lowest sample per column, -1..0
+  max: Float32Array; // highest sample per column, 0..1
+  duration: number;  // seconds the columns span
+}
+
+export function computeWaveformPeaks(buffer: AudioBuffer, columns: number = WAVEFORM_COLUMNS): WaveformPeaks {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const samplesPerColumn = buffer.length / columns;
+
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let col = 0; col < columns; col++) {
+      const start = Math.floor(col * samplesPerColumn);
+      const end = Math.min(data.length, Math.floor((col + 1) * samplesPerColumn));
+      let lo = min[col];
+      let hi = max[col];
+      for (let i = start; i < end; i++) {
+        const sample = data[i];
+        if (sample < lo) lo = sample;
+        else if (sample > hi) hi = sample;
+      }
+      min[col] = lo;
+      max[col] = hi;
+    }
+  }
+
+  return { min, max, duration: buffer.duration };
+}
@@ -1,14 +1,167 @@
+import { measureIntegratedLoudness } from './audio/loudness';
+import { measureSamplePeak, measureTruePeak } from './audio/peak';
+import { detectSilenceBounds } from './audio/silence';
+import {
+  TrackAnalysis,
+  getAnalysisKey,
+  getCachedAnalysis,
+  setCachedAnalysis
+} from './audio/analysisCache';
+import { CrossfadeCurve, createFadeInCurve, createFadeOutCurve } from './audio/fadeCurves';
+import {
+  TransitionReason,
+  TransitionProfile,
+  TransitionStyle,
+  DEFAULT_TRANSITION_PROFILES
+} from './audio/transitions';
+import { BufferPool } from './audio/bufferPool';
+import { OutputMeter, OutputLevels } from './audio/outputMeter';
+import { WaveformPeaks, computeWaveformPeaks } from './audio/waveform';
+import { EqBand, EqGains, EQ_BANDS, FLAT_EQ, clampEqGain, createEqualizer } from './audio/equalizer';
+import { ChannelMapper, OutputMode, OUTPUT_MODES } from './audio/channelMapper';
+import {
+  GainTags,
+  NormalizationSource,
+  NORMALIZATION_SOURCES,
+  getTaggedLoudness,
+  getTaggedPeak
+} from './audio/gainTags';
+import {
+  PlayableTrack,
+  StreamedTrack,
+  isStreamedTrack,
+  probeDuration,
+  createStreamElement,
+  releaseStreamElement
+} from './audio/streamedTrack';
+
+// Upper bound for decoded audio held ready for instant playback
+const BUFFER_POOL_BYTES = 512 * 1024 * 1024;
+
+// No common codec encodes music below this, so smaller files cannot reach the
+// streaming duration threshold and are decoded without probing their length
+const MIN_BYTES_PER_SECOND = 8000;
+
+// How often the dead-air watchdog samples the output level
+const DEAD_AIR_CHECK_MS = 500;
+
+// How far ahead of a natural transition the next track is chosen and decoded
+const PREPARE_AHEAD_SECONDS = 20;
+
+// One playing (or scheduled) track: its source, its own gain stage and
+// where in the track it plays from
+interface Deck {
+  id: number;
+  source: AudioBufferSourceNode | MediaElementAudioSourceNode;
+  element: HTMLAudioElement | null; // set for streamed tracks
+  startTimeout: ReturnType<typeof setTimeout> | null; // pending media element start
+  gain: GainNode;
+  track: PlayableTrack;
+  offset: number;      // track position playback starts from, seconds
+  audibleEnd: number;  // buffer position of the last audible sample, seconds
+  level: number;       // normalization gain the deck fades up to
+  startTime: number;   // context time at which buffer position 0 plays
+}
+
+/**
+ * A decoded next track handed over by the next-track provider, plus hooks for
+ * when it actually becomes audible or is dropped because of an interrupt.
+ */
+export interface PreparedTrack {
+  track: PlayableTrack;
+  reason: TransitionReason;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+// A next track whose start() and fades are already on the audio clock
+interface ScheduledTransition {
+  deck: Deck;
+  previous: Deck;
+  prepared: PreparedTrack;
+  transitionAt: number; // context time the previous track starts fading
+  fadeOutEnd: number;   // context time the previous track is silent
+}
+
+/** An audio output the context can play to. */
+export interface OutputDevice {
+  id: string;
+  label: string;
+}
+
+// The chosen output device went away (and the system default took over) or came back
+export type OutputDeviceEvent = 'lost' | 'restored';
+
+interface TransitionTiming {
+  lead: number;       // seconds before the audible end the transition begins
+  fadeOut: number;    // previous track fade-out length
+  startDelay: number; // seconds after the transition begins that the new track starts
+  fadeIn: number;     // new track fade-in length
+}
 
 class AudioManager {
   private static instance: AudioManager;
   private audioContext: AudioContext | null = null;
-  private gainNode: GainNode | null = null;
-  private currentSource: AudioBufferSourceNode | null = null;
-  private nextSource: AudioBufferSourceNode | null = null;
-  private currentBuffer: AudioBuffer | null = null;
-  private nextBuffer: AudioBuffer | null = null;
+  // Music bus carries the user volume, so per-track gains only hold normalization and fades
+  private musicBus: GainNode | null = null;
+  // Unity-gain sum of the decks ahead of the music bus, metered by the dead-air
+  // watchdog so the fader and ducking do not read as silence
+  private musicInput: GainNode | null = null;
+  private musicMeter: OutputMeter | null = null;
+  // Duck stage between the music bus and the master bus, lowered under announcements
+  private duckGain: GainNode | null = null;
+  // Stinger bus: sound effects over the music with their own volume; not
+  // affected by ducking or pausing the music
+  private stingerBus: GainNode | null = null;
+  // Master bus: the duck stage and the stinger bus feed
+  // masterGain → EQ → [limiter → ceiling clipper] → channel mapper → destination
+  private masterGain: GainNode | null = null;
+  private equalizer: Record<EqBand, BiquadFilterNode> | null = null;
+  private limiter: DynamicsCompressorNode | null = null;
+  private ceilingClipper: WaveShaperNode | null = null;
+  private channelMapper: ChannelMapper | null = null;
+  // Last node before the destination; the output meter and the recorder tap it
+  private outputNode: GainNode | null = null;
+  private outputMeter: OutputMeter | null = null;
+  private recordingDestination: MediaStreamAudioDestinationNode | null = null;
+  // While paused this is the stopped deck, kept for its track
+  private currentDeck: Deck | null = null;
+  // Outgoing decks still fading out after a transition or pause
+  private fadingDecks: Set<Deck> = new Set();
+  // Next track lined up on the audio clock for the current track's natural end
+  private scheduled: ScheduledTransition | null = null;
+  private nextTrackProvider: (() => Promise<PreparedTrack | null>) | null = null;
+  private prepareTimeout: ReturnType<typeof setTimeout> | null = null;
+  private commitTimeout: ReturnType<typeof setTimeout> | null = null;
+  private prepareToken = 0;
+  private duckDepth = -12; // dB
+  private duckAttack = 0.2; // seconds
+  private duckRelease = 0.8; // seconds
+  private duckAutoRelease = 0; // seconds; 0 = stay ducked until unduck()
+  private ducked = false;
+  private duckReleaseTimeout: ReturnType<typeof setTimeout> | null = null;
+  private duckChangeCallbacks: Array<(ducked: boolean) => void> = [];
+  private stingerVolume = 1;
+  private stingerAutoDuck = true;
+  private activeStingers: Set<AudioBufferSourceNode> = new Set();
+  // Set while a duck was started by a stinger, so it is released when the last one ends
+  private stingerDucked = false;
+  // Dead-air watchdog: output below the threshold this long while playing is an incident
+  private deadAirTimeout = 8; // seconds; 0 = off
+  private deadAirThreshold = -60; // dBFS
+  private silentSince: number | null = null;
+  private deadAirCallbacks: Array<(silentSeconds: number) => void> = [];
+  // Output device, remembered by label because device ids are not stable
+  // across sessions. null = system default.
+  private outputDeviceLabel: string | null = null;
+  private outputDeviceAvailable = true;
+  private outputDeviceUpdate: Promise<void> = Promise.resolve();
+  private outputDeviceCallbacks: Array<(event: OutputDeviceEvent, label: string) => void> = [];
+  private pauseFadeOut = 0.3; // seconds
+  private pauseFadeIn = 0.3; // seconds
   private crossfadeDuration = 2; // in seconds
-  private currentStartTime = 0;
+  private crossfadeCurve: CrossfadeCurve = 'equalPower';
+  private transitionProfiles: Record<TransitionReason, TransitionProfile> = { ...DEFAULT_TRANSITION_PROFILES };
   private currentPlaybackTime = 0;
   private currentDuration = 0;
   private volume = 1;
@@ -16,20 +169,75 @@ class AudioManager {
   private trackEndCallback: (() => void) | null = null;
   private normalizationEnabled = true;
   private targetLoudness = -14; // Target LUFS (Loudness Units relative to Full Scale)
-  private loudnessCache: WeakMap<AudioBuffer, number> = new WeakMap();
+  private normalizationSource: NormalizationSource = 'tagsFirst';
+  private peakCeiling = -1; // dBTP — no track is boosted past this true-peak level
+  private limiterEnabled = false;
+  private limiterThreshold = -6; // dBFS
+  private eqGains: EqGains = { ...FLAT_EQ };
+  private outputMode: OutputMode = 'stereo';
+  // Leading/trailing silence trimming: playback starts at the first audible
+  // sample and the next-track timer counts back from the last audible one
+  private silenceTrimEnabled = true;
+  private silenceStartThreshold = -60; // dBFS
+  private silenceEndThreshold = -45; // dBFS; higher so long fade tails count as silence
+  // Analysis results per loaded track, seeded from the persistent cache in loadTrack()
+  private analysisCache: WeakMap<PlayableTrack, TrackAnalysis> = new WeakMap();
+  // Persistent cache key (path|size|mtime) of the file each track was loaded from
+  private trackKeys: WeakMap<PlayableTrack, string> = new WeakMap();
+  // Loudness tags read from the file, passed in by whoever loaded the track
+  private gainTags: WeakMap<PlayableTrack, GainTags> = new WeakMap();
+  // Seek-bar waveform overviews, computed on first request per buffer
+  private waveforms: WeakMap<AudioBuffer, WaveformPeaks> = new WeakMap();
+  // Recently decoded and pre-decoded tracks, by analysis key
+  private bufferPool = new BufferPool(BUFFER_POOL_BYTES);
+  // Loads in flight, so a click during a preload waits for it instead of decoding twice
+  private pendingLoads: Map<string, Promise<PlayableTrack>> = new Map();
+  // Files at least this long or this large stream through a media element
+  // instead of being decoded into memory
+  private streamingDurationThreshold = 20 * 60; // seconds
+  private streamingSizeThreshold = 200 * 1024 * 1024; // bytes
   
   // Track end coordination to prevent double-calls
   private currentSourceId = 0;
-  private activeSourceId: number | null = null;
   private endHandledForSourceId: number | null = null;
-  private trackEndTimerSourceId: number | null = null;
   
   private constructor() {
     try {
       window.AudioContext = window.AudioContext || (window as any).webkitAudioContext;
       this.audioContext = new AudioContext();
-      this.gainNode = this.audioContext.createGain();
-      this.gainNode.connect(this.audioContext.destination);
+      this.masterGain = this.audioContext.createGain();
+      this.limiter = this.audioContext.createDynamicsCompressor();
+      this.limiter.ratio.value = 20;
+      this.limiter.knee.value = 0;
+      this.limiter.attack.value = 0.003;
+      this.limiter.release.value = 0.25;
+      this.limiter.threshold.value = this.limiterThreshold;
+      this.ceilingClipper = this.audioContext.createWaveShaper();
+      this.ceilingClipper.oversample = '4x';
+      this.updateCeilingCurve();
+      this.equalizer = createEqualizer(this.audioContext, this.eqGains);
+      this.masterGain.connect(this.equalizer.low);
+      this.outputNode = this.audioContext.createGain();
+      this.outputNode.connect(this.audioContext.destination);
+      this.channelMapper = new ChannelMapper(this.audioContext, this.outputMode);
+      this.channelMapper.output.connect(this.outputNode);
+      this.outputMeter = new OutputMeter(this.audioContext, this.outputNode);
+      this.rebuildMasterChain();
+
+      this.duckGain = this.audioContext.createGain();
+      this.duckGain.connect(this.masterGain);
+      this.musicBus = this.audioContext.createGain();
+      this.musicBus.connect(this.duckGain);
+      this.musicInput = this.audioContext.createGain();
+      this.musicInput.connect(this.musicBus);
+      this.musicMeter = new OutputMeter(this.audioContext, this.musicInput);
+      this.stingerBus = this.audioContext.createGain();
+      this.stingerBus.connect(this.masterGain);
+
+      setInterval(() => this.checkDeadAir(), DEAD_AIR_CHECK_MS);
+      navigator.mediaDevices?.addEventListener('devicechange', () => {
+        void this.applyOutputDevice();
+      });
     } catch (e) {
       console.error('Web Audio API is not supported in this browser', e);
     }
@@ -42,6 +250,36 @@ class AudioManager {
     return AudioManager.instance;
   }
 
+  // Wire the output of the EQ, inserting the limiter stage only when it is enabled
+  private rebuildMasterChain(): void {
+    if (!this.equalizer || !this.limiter || !this.ceilingClipper || !this.channelMapper) return;
+
+    const eqOutput = this.equalizer.high;
+    eqOutput.disconnect();
+    this.limiter.disconnect();
+    this.ceilingClipper.disconnect();
+
+    if (this.limiterEnabled) {
+      eqOutput.connect(this.limiter);
+      this.limiter.connect(this.ceilingClipper);
+      this.ceilingClipper.connect(this.channelMapper.input);
+    } else {
+      eqOutput.connect(this.channelMapper.input);
+    }
+  }
+
+  // Hard-clip anything the compressor lets through above the ceiling
+  private updateCeilingCurve(): void {
+    if (!this.ceilingClipper) return;
+    const ceiling = Math.pow(10, this.peakCeiling / 20);
+    const curve = new Float32Array(2049);
+    for (let i = 0; i < curve.length; i++) {
+      const x = (i / (curve.length - 1)) * 2 - 1;
+      curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+    }
+    this.ceilingClipper.curve = curve;
+  }
+
   private async ensureContextRunning(): Promise<void> {
     if (this.audioContext && this.audioContext.state === 'suspended') {
       try {
@@ -51,53 +289,161 @@ class AudioManager {
       }
     }
   }
-  public async loadTrack(audioFile: File): Promise<AudioBuffer> {
+
+  // Decodes the file, or sets it up for streaming when it is long or large.
+  // Loudness tags, if given, are used by normalization instead of analysis.
+  public async loadTrack(audioFile: File, gainTags?: GainTags): Promise<PlayableTrack> {
     if (!this.audioContext) throw new Error('Audio context not initialized');
     
-    const arrayBuffer = await audioFile.arrayBuffer();
-    return await this.audioContext.decodeAudioData(arrayBuffer);
+    const key = getAnalysisKey(audioFile);
+    let track: PlayableTrack | undefined = this.bufferPool.get(key);
+    if (!track) {
+      let pending = this.pendingLoads.get(key);
+      if (!pending) {
+        pending = this.openTrack(audioFile, key).finally(() => this.pendingLoads.delete(key));
+        this.pendingLoads.set(key, pending);
+      }
+      track = await pending;
+    }
+    if (gainTags) this.gainTags.set(track, gainTags);
+    return track;
   }
 
-  // Calculate the perceived loudness of an audio buffer
-  private analyzeTrackLoudness(buffer: AudioBuffer): number {
-    if (!buffer || !buffer.getChannelData) return 0;
+  private async openTrack(audioFile: File, key: string): Promise<PlayableTrack> {
+    if (audioFile.size >= this.streamingSizeThreshold) {
+      return this.openStreamedTrack(audioFile, key, await probeDuration(audioFile));
+    }
+    if (audioFile.size >= this.streamingDurationThreshold * MIN_BYTES_PER_SECOND) {
+      const duration = await probeDuration(audioFile);
+      if (duration >= this.streamingDurationThreshold) {
+        return this.openStreamedTrack(audioFile, key, duration);
+      }
+    }
+    return this.decodeTrack(audioFile, key);
+  }
 
-    // Use cache to avoid re-analyzing the same buffer repeatedly
-    const cached = this.loudnessCache.get(buffer);
-    if (cached !== undefined) return cached;
-    
-    // Simple RMS (root mean square) loudness measurement
-    // This is a simplified approach compared to full LUFS calculation
-    let sumOfSquares = 0;
-    let sampleCount = 0;
-    
-    // Use the first channel (usually left)
-    const channelData = buffer.getChannelData(0);
-    
-    // Sample at intervals to improve performance on larger files
-    const samplingRate = Math.max(1, Math.floor(channelData.length / 10000));
-    
-    for (let i = 0; i < channelData.length; i += samplingRate) {
-      sumOfSquares += channelData[i] * channelData[i];
-      sampleCount++;
+  // Streamed tracks are never decoded as a whole, so they only get the
+  // loudness and silence analysis that is already in the persistent cache
+  private async openStreamedTrack(audioFile: File, key: string, duration: number): Promise<StreamedTrack> {
+    if (!isFinite(duration)) throw new Error(`Cannot read the duration of ${audioFile.name}`);
+
+    const track: StreamedTrack = { kind: 'stream', file: audioFile, duration };
+    const cached = await getCachedAnalysis(key);
+    this.trackKeys.set(track, key);
+    if (cached && typeof cached.truePeak === 'number' && cached.silenceThresholds &&
+        Math.abs(cached.duration - duration) < 0.5) {
+      this.analysisCache.set(track, cached);
     }
+    console.log(`[AudioManager] Streaming ${audioFile.name} (${(duration / 60).toFixed(1)} min, ${(audioFile.size / 1048576).toFixed(0)} MB)`);
+    return track;
+  }
+
+  /**
+   * Decodes and analyzes a track ahead of time so a later loadTrack() and
+   * playTrack() for the same file start immediately (streamed tracks are only
+   * probed). Errors are logged, not thrown.
+   */
+  public async preloadTrack(audioFile: File): Promise<void> {
+    try {
+      const track = await this.loadTrack(audioFile);
+      // Loudness, peak and silence analysis (and its cache write) would otherwise run on play
+      this.getTrackAnalysis(track);
+    } catch (error) {
+      console.warn(`[AudioManager] Pre-decoding ${audioFile.name} failed`, error);
+    }
+  }
+
+  public clearBufferPool(): void {
+    this.bufferPool.clear();
+  }
+
+  private async decodeTrack(audioFile: File, key: string): Promise<AudioBuffer> {
+    const [arrayBuffer, cached] = await Promise.all([
+      audioFile.arrayBuffer(),
+      getCachedAnalysis(key)
+    ]);
+    const buffer = await this.audioContext!.decodeAudioData(arrayBuffer);
     
-    const rms = Math.sqrt(sumOfSquares / Math.max(1, sampleCount));
-    
-    // Convert RMS to dB (approximation of LUFS)
-    // 20 * log10(rms) gives us dB relative to full scale
-    // For digital audio, full scale is 1.0
-    const db = 20 * Math.log10(Math.max(rms, 1e-8)); // avoid -Infinity
-    
-    console.log(`Track loudness analysis: ${db.toFixed(2)} dB`);
-    this.loudnessCache.set(buffer, db);
-    return db;
+    this.trackKeys.set(buffer, key);
+    // Ignore entries whose duration no longer matches what was decoded
+    if (cached && typeof cached.truePeak === 'number' && cached.silenceThresholds &&
+        Math.abs(cached.duration - buffer.duration) < 0.5) {
+      this.analysisCache.set(buffer, cached);
+    }
+    this.bufferPool.set(key, buffer);
+    return buffer;
+  }
+
+  // Analyze a buffer once (loudness, peak, silence bounds) and persist the result.
+  // Streamed tracks only have what was cached from an earlier decode, if anything.
+  private getTrackAnalysis(track: PlayableTrack): TrackAnalysis | null {
+    const cached = this.analysisCache.get(track);
+    if (isStreamedTrack(track)) return cached ?? null;
+
+    const buffer = track;
+    if (cached) {
+      // Silence bounds are cheap to redo when the thresholds changed since caching
+      const { start, end } = cached.silenceThresholds;
+      if (start === this.silenceStartThreshold && end === this.silenceEndThreshold) return cached;
+      return this.storeAnalysis(buffer, { ...cached, ...this.detectSilence(buffer) });
+    }
+
+    const peak = measureSamplePeak(buffer);
+    const analysis: TrackAnalysis = {
+      // K-weighted, gated loudness over every channel of the full buffer
+      loudness: measureIntegratedLoudness(buffer),
+      peak,
+      truePeak: measureTruePeak(buffer, peak),
+      duration: buffer.duration,
+      ...this.detectSilence(buffer)
+    };
+    console.log(`Track loudness analysis: ${analysis.loudness.toFixed(2)} LUFS, true peak ${(20 * Math.log10(Math.max(analysis.truePeak, 1e-8))).toFixed(2)} dBTP, audible ${analysis.startTime.toFixed(2)}s–${analysis.endTime.toFixed(2)}s`);
+
+    return this.storeAnalysis(buffer, analysis);
+  }
+
+  private detectSilence(buffer: AudioBuffer): Pick<TrackAnalysis, 'startTime' | 'endTime' | 'silenceThresholds'> {
+    const start = this.silenceStartThreshold;
+    const end = this.silenceEndThreshold;
+    return { ...detectSilenceBounds(buffer, start, end), silenceThresholds: { start, end } };
   }
 
-  // Calculate gain adjustment based on loudness analysis
-  private calculateNormalizationGain(loudness: number): number {
+  private storeAnalysis(buffer: AudioBuffer, analysis: TrackAnalysis): TrackAnalysis {
+    this.analysisCache.set(buffer, analysis);
+    const key = this.trackKeys.get(buffer);
+    if (key) setCachedAnalysis(key, analysis);
+    return analysis;
+  }
+
+  // Loudness and peak for normalization, from tags or analysis depending on
+  // the normalization source; null if neither is available
+  private getNormalizationLevels(track: PlayableTrack): { loudness: number; truePeak: number; source: string } | null {
+    const tags = this.normalizationSource !== 'analysis' ? this.gainTags.get(track) : undefined;
+    const taggedLoudness = tags ? getTaggedLoudness(tags) : null;
+    if (tags && taggedLoudness !== null) {
+      // Tagged peaks are sample peaks; a measured true peak is better if we have one anyway
+      const truePeak = getTaggedPeak(tags) ?? this.getTrackAnalysis(track)?.truePeak ?? 0;
+      return { loudness: taggedLoudness, truePeak, source: 'tags' };
+    }
+    if (this.normalizationSource === 'tags') return null;
+
+    const analysis = this.getTrackAnalysis(track);
+    // Streamed track that was never analyzed
+    if (!analysis) return null;
+    return { loudness: analysis.loudness, truePeak: analysis.truePeak, source: 'analysis' };
+  }
+
+  // Calculate gain adjustment based on the track's loudness
+  private calculateNormalizationGain(track: PlayableTrack): number {
     if (!this.normalizationEnabled) return 1.0;
     
+    const levels = this.getNormalizationLevels(track);
+    if (!levels) return 1.0;
+    const { loudness, truePeak, source } = levels;
+    
+    // Silent or too-short buffers have no measurable loudness; leave them alone
+    if (!isFinite(loudness)) return 1.0;
+    
     // Calculate difference between target and actual loudness
     const loudnessDifference = this.targetLoudness - loudness;
     
@@ -110,171 +456,362 @@ class AudioManager {
     const maxGain = 3.0;
     gainAdjustment = Math.min(gainAdjustment, maxGain);
     
-    console.log(`Applying normalization gain: ${gainAdjustment.toFixed(2)}x (${loudnessDifference.toFixed(2)} dB adjustment)`);
+    // Never push the track's true peak above the configured ceiling
+    if (truePeak > 0) {
+      const peakLimitedGain = Math.pow(10, this.peakCeiling / 20) / truePeak;
+      gainAdjustment = Math.min(gainAdjustment, peakLimitedGain);
+    }
+    
+    console.log(`Applying normalization gain: ${gainAdjustment.toFixed(2)}x (${loudnessDifference.toFixed(2)} dB adjustment, from ${source})`);
     return gainAdjustment;
   }
 
-  public async playTrack(buffer: AudioBuffer, startAtTime = 0): Promise<void> {
-    if (!this.audioContext || !this.gainNode) {
+  // Resolve the effective style for a transition; a crossfade with no duration is a cut
+  private getTransitionStyle(reason: TransitionReason) {
+    const profile = this.transitionProfiles[reason];
+    if (profile.style === 'crossfade' && this.crossfadeDuration <= 0) return 'cut';
+    if (profile.style === 'dip' && profile.dipDuration <= 0) return 'cut';
+    return profile.style;
+  }
+
+  // Seconds of each phase for a transition of the given style
+  private getTransitionTiming(style: TransitionStyle, reason: TransitionReason, crossfadeLength: number): TransitionTiming {
+    if (style === 'crossfade') {
+      return { lead: crossfadeLength, fadeOut: crossfadeLength, startDelay: 0, fadeIn: crossfadeLength };
+    }
+    if (style === 'dip') {
+      const half = this.transitionProfiles[reason].dipDuration / 2;
+      return { lead: half, fadeOut: half, startDelay: half, fadeIn: half };
+    }
+    return { lead: 0, fadeOut: 0, startDelay: 0, fadeIn: 0 };
+  }
+
+  // Build a source + gain for a track, connected to the music bus but not started
+  private createDeck(track: PlayableTrack, startAtTime?: number): Deck {
+    const ctx = this.audioContext!;
+
+    // Skip leading silence and stop counting at the last audible sample
+    const analysis = this.silenceTrimEnabled ? this.getTrackAnalysis(track) : null;
+
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    gain.connect(this.musicInput!);
+
+    let source: AudioBufferSourceNode | MediaElementAudioSourceNode;
+    let element: HTMLAudioElement | null = null;
+    if (isStreamedTrack(track)) {
+      element = createStreamElement(track.file);
+      source = ctx.createMediaElementSource(element);
+    } else {
+      source = ctx.createBufferSource();
+      source.buffer = track;
+    }
+    source.connect(gain);
+
+    const deck: Deck = {
+      id: ++this.currentSourceId,
+      source,
+      element,
+      startTimeout: null,
+      gain,
+      track,
+      offset: startAtTime ?? analysis?.startTime ?? 0,
+      audibleEnd: analysis ? analysis.endTime : track.duration,
+      level: this.calculateNormalizationGain(track),
+      startTime: 0
+    };
+    const onEnded = () => {
+      gain.disconnect();
+      this.handleTrackEnd(deck.id, 'ended');
+    };
+    if (element) {
+      element.currentTime = deck.offset;
+      element.onended = onEnded;
+      // A stream that breaks mid-track is treated like its end so playback moves on
+      element.onerror = () => {
+        console.error('[AudioManager] Streaming playback failed', element?.error);
+        onEnded();
+      };
+    } else {
+      (source as AudioBufferSourceNode).onended = onEnded;
+    }
+    return deck;
+  }
+
+  // Start a deck at an exact context time, fading in along the crossfade curve
+  private startDeck(deck: Deck, when: number, fadeIn: number): void {
+    if (fadeIn > 0) {
+      deck.gain.gain.setValueCurveAtTime(createFadeInCurve(this.crossfadeCurve, deck.level), when, fadeIn);
+    } else {
+      deck.gain.gain.setValueAtTime(deck.level, when);
+    }
+    deck.startTime = when - deck.offset;
+
+    const element = deck.element;
+    if (!element) {
+      (deck.source as AudioBufferSourceNode).start(when, deck.offset);
+      return;
+    }
+    // Media elements cannot be started on the audio clock; get as close as a timer allows
+    const play = () => {
+      deck.startTimeout = null;
+      element.play().catch(error => console.error('[AudioManager] Streaming playback failed', error));
+    };
+    const delay = when - this.audioContext!.currentTime;
+    if (delay > 0) {
+      deck.startTimeout = setTimeout(play, delay * 1000);
+    } else {
+      play();
+    }
+  }
+
+  // Fade a deck to silence starting at an exact context time (it keeps running)
+  private fadeOutDeck(deck: Deck, when: number, duration: number): void {
+    const param = deck.gain.gain;
+    // Mid-fade interrupts continue from wherever the gain currently is
+    const fromLevel = when <= this.audioContext!.currentTime ? param.value : deck.level;
+    param.cancelScheduledValues(when);
+    if (duration > 0) {
+      param.setValueCurveAtTime(createFadeOutCurve(this.crossfadeCurve, fromLevel), when, duration);
+    } else {
+      param.setValueAtTime(0, when);
+    }
+  }
+
+  private stopDeck(deck: Deck): void {
+    this.fadingDecks.delete(deck);
+    if (deck.element) {
+      clearTimeout(deck.startTimeout);
+      releaseStreamElement(deck.element);
+    } else {
+      const source = deck.source as AudioBufferSourceNode;
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (e) {
+        // Source may never have started or already be stopped, ignore error
+      }
+    }
+    deck.source.disconnect();
+    deck.gain.disconnect();
+  }
+
+  // Stop a deck at a context time, once its fade-out has finished
+  private stopDeckAt(deck: Deck, when: number): void {
+    this.fadingDecks.add(deck);
+    if (deck.element) {
+      const delay = Math.max(0, when - this.audioContext!.currentTime);
+      setTimeout(() => this.stopDeck(deck), delay * 1000);
+      return;
+    }
+    const source = deck.source as AudioBufferSourceNode;
+    source.addEventListener('ended', () => this.fadingDecks.delete(deck));
+    try {
+      source.stop(when);
+    } catch (e) {
+      // Source may already be stopped, ignore error
+    }
+  }
+
+  // Where the deck is in its track, in seconds
+  private getDeckPosition(deck: Deck): number {
+    // Media elements run on their own clock and can stall, so ask them directly
+    if (deck.element && !deck.startTimeout) return deck.element.currentTime;
+    // Clamped because a dip schedules the new track slightly in the future
+    return Math.max(0, this.audioContext!.currentTime - deck.startTime);
+  }
+
+  // Context time at which the deck reaches its last audible sample
+  private getDeckEndTime(deck: Deck): number {
+    if (deck.element && !deck.startTimeout) {
+      return this.audioContext!.currentTime + deck.audibleEnd - deck.element.currentTime;
+    }
+    return deck.startTime + deck.audibleEnd;
+  }
+
+  // startAtTime omitted = play from the top (the first audible sample when trimming silence).
+  // reason selects the transition profile used if another track is already playing.
+  public async playTrack(track: PlayableTrack, startAtTime?: number, reason: TransitionReason = 'natural'): Promise<void> {
+    if (!this.audioContext || !this.musicBus) {
       throw new Error('Audio context not initialized');
     }
 
     await this.ensureContextRunning();
 
-    // Clear any pending end timer from previous source before starting a new one
+    // An explicit track change replaces whatever was lined up for the natural end
+    this.cancelScheduledTransition();
     clearTimeout(this.trackEndTimeout);
-    this.trackEndTimerSourceId = null;
-
-    // Analyze track loudness and calculate normalization gain
-    const trackLoudness = this.analyzeTrackLoudness(buffer);
-    const normalizationGain = this.calculateNormalizationGain(trackLoudness);
-
-    // If we already have a track playing, prepare to crossfade
-    if (this.currentSource && this.playing && this.crossfadeDuration > 0) {
-      console.log('[AudioManager] Starting crossfade transition');
-      
-      // Stop any existing next source to prevent conflicts
-      if (this.nextSource) {
-        try {
-          this.nextSource.stop();
-          this.nextSource.disconnect();
-        } catch (e) {
-          // Ignore errors from already stopped sources
-        }
-        this.nextSource = null;
-        this.nextBuffer = null;
-      }
-      
-      // Create a new buffer source for the next track
-      this.nextBuffer = buffer;
-      this.nextSource = this.audioContext.createBufferSource();
-      this.nextSource.buffer = buffer;
-
-      // Assign an ID for this new playing source and set up end handler
-      const sourceId = ++this.currentSourceId;
-      this.activeSourceId = sourceId;
-      this.endHandledForSourceId = null;
-      this.nextSource.onended = () => {
-        this.handleTrackEnd(sourceId, 'ended');
-      };
-      
-      // Create a new gain node for the next track (starts at 0)
-      const nextGain = this.audioContext.createGain();
-      nextGain.gain.value = 0;
-      
-      // Apply normalization gain if enabled
-      const normalizedVolume = this.volume * normalizationGain;
-      
-      // Connect the next source to its gain node and then to the destination
-      this.nextSource.connect(nextGain);
-      nextGain.connect(this.audioContext.destination);
-      
-      // Get current time from audio context
-      const now = this.audioContext.currentTime;
-      
-      // Store the existing source and gain for cleanup
-      const oldSource = this.currentSource;
-      const oldGain = this.gainNode;
-      
-      // Fade out current track
-      oldGain.gain.setValueAtTime(oldGain.gain.value, now);
-      oldGain.gain.linearRampToValueAtTime(0, now + this.crossfadeDuration);
-      
-      // Fade in next track
-      nextGain.gain.setValueAtTime(0, now);
-      nextGain.gain.linearRampToValueAtTime(normalizedVolume, now + this.crossfadeDuration);
-      
-      // Start the next track
-      this.nextSource.start(0, startAtTime);
-      
-      // Clean up old track after crossfade completes
-      setTimeout(() => {
-        console.log('[AudioManager] Crossfade cleanup - stopping old source');
-        try {
-          oldSource.stop();
-          oldSource.disconnect();
-        } catch (e) {
-          // Source may already be stopped, ignore error
-        }
-        
-        try {
-          oldGain.disconnect();
-        } catch (e) {
-          // May already be disconnected, ignore error
-        }
-      }, this.crossfadeDuration * 1000);
-      
-      // Update references after starting the new track
-      this.currentSource = this.nextSource;
-      this.gainNode = nextGain;
-      this.currentBuffer = this.nextBuffer;
-      this.nextSource = null;
-      this.nextBuffer = null;
-      
-      // Reset timing information
-      this.currentStartTime = this.audioContext.currentTime - startAtTime;
-      this.currentDuration = buffer.duration;
-      
-      // Set up track end detection for the new track
-      this.setTrackEndTimer();
+
+    const deck = this.createDeck(track, startAtTime);
+    const previous = this.playing ? this.currentDeck : null;
+    const style = this.getTransitionStyle(reason);
+    const now = this.audioContext.currentTime;
+
+    // If we already have a track playing, crossfade or dip into the new one
+    if (previous && style !== 'cut') {
+      console.log(`[AudioManager] Starting ${style} transition (${reason})`);
+      const timing = this.getTransitionTiming(style, reason, this.crossfadeDuration);
+      this.fadeOutDeck(previous, now, timing.fadeOut);
+      this.stopDeckAt(previous, now + timing.fadeOut);
+      this.startDeck(deck, now + timing.startDelay, timing.fadeIn);
     } else {
-      // First track, starting after being stopped, or crossfade disabled
-      if (this.currentSource) {
-        this.currentSource.disconnect();
-        this.currentSource.stop();
-      }
-      
-      this.currentSource = this.audioContext.createBufferSource();
-      this.currentBuffer = buffer;
-      this.currentSource.buffer = buffer;
-      
-      // Apply normalization if enabled
-      const normalizedVolume = this.volume * normalizationGain;
-      
-      // Reset gain node to current volume with normalization
-      this.gainNode.gain.value = normalizedVolume;
-      
-      // Assign an ID for this new playing source and set up end handler
-      const sourceId = ++this.currentSourceId;
-      this.activeSourceId = sourceId;
-      this.endHandledForSourceId = null;
-      
-      // Connect and start
-      this.currentSource.connect(this.gainNode);
-      this.currentSource.onended = () => {
-        this.handleTrackEnd(sourceId, 'ended');
-      };
-      this.currentSource.start(0, startAtTime);
-      
-      // Set timing information
-      this.currentStartTime = this.audioContext.currentTime - startAtTime;
-      this.currentDuration = buffer.duration;
-      this.playing = true;
-      
-      // Set up track end detection
+      // First track, starting after being stopped, or a hard cut
+      if (this.currentDeck) this.stopDeck(this.currentDeck);
+      this.startDeck(deck, now, 0);
+    }
+
+    this.currentDeck = deck;
+    this.endHandledForSourceId = null;
+    this.currentDuration = track.duration;
+    this.playing = true;
+
+    // Line up the following track against the audio clock
+    this.scheduleNextTrack();
+  }
+
+  /**
+   * Registers the function that picks and decodes the track to follow the
+   * current one. It is called about PREPARE_AHEAD_SECONDS before the current
+   * track's audible end so the hand-over can be scheduled sample-accurately.
+   */
+  public setNextTrackProvider(provider: () => Promise<PreparedTrack | null>): void {
+    this.nextTrackProvider = provider;
+  }
+
+  private scheduleNextTrack(): void {
+    clearTimeout(this.prepareTimeout);
+    const token = ++this.prepareToken;
+    const deck = this.currentDeck;
+    if (!deck || !this.playing || !this.audioContext) return;
+
+    if (!this.nextTrackProvider) {
       this.setTrackEndTimer();
+      return;
+    }
+
+    // This timer only decides when to start decoding, so drift here is harmless
+    const endAt = this.getDeckEndTime(deck);
+    const prepareIn = Math.max(0, endAt - PREPARE_AHEAD_SECONDS - this.audioContext.currentTime);
+
+    this.prepareTimeout = setTimeout(async () => {
+      let prepared: PreparedTrack | null = null;
+      try {
+        prepared = await this.nextTrackProvider!();
+      } catch (e) {
+        console.error('[AudioManager] Preparing next track failed', e);
+      }
+
+      // Interrupted, paused or stopped while decoding
+      if (token !== this.prepareToken || this.currentDeck !== deck || !this.playing) {
+        prepared?.onCancel();
+        return;
+      }
+
+      if (prepared) {
+        this.scheduleTransition(deck, prepared);
+      } else {
+        // Nothing prepared; fall back to asking for the next track at the end
+        this.setTrackEndTimer();
+      }
+    }, prepareIn * 1000);
+  }
+
+  // Put the prepared track's start() and both fades on the audio clock
+  private scheduleTransition(previous: Deck, prepared: PreparedTrack): void {
+    const ctx = this.audioContext!;
+    const deck = this.createDeck(prepared.track);
+    const style = this.getTransitionStyle(prepared.reason);
+
+    const endAt = this.getDeckEndTime(previous);
+    const now = ctx.currentTime;
+    // Short tracks get a crossfade no longer than what is left of them
+    const timing = this.getTransitionTiming(style, prepared.reason, Math.min(this.crossfadeDuration, Math.max(0, endAt - now)));
+    // If decoding ran late, begin the transition right away
+    const transitionAt = Math.max(now, endAt - timing.lead);
+    const startAt = transitionAt + timing.startDelay;
+
+    this.fadeOutDeck(previous, transitionAt, timing.fadeOut);
+    this.startDeck(deck, startAt, timing.fadeIn);
+
+    this.scheduled = {
+      deck,
+      previous,
+      prepared,
+      transitionAt,
+      fadeOutEnd: transitionAt + timing.fadeOut
+    };
+    console.log(`[AudioManager] Scheduled ${style} transition in ${(transitionAt - now).toFixed(2)}s`);
+
+    // UI/state swap only; the audio itself is already scheduled
+    clearTimeout(this.commitTimeout);
+    this.commitTimeout = setTimeout(() => this.commitScheduledTransition(), (startAt - now) * 1000);
+  }
+
+  // The scheduled track is now audible: make it the current one
+  private commitScheduledTransition(): void {
+    const scheduled = this.scheduled;
+    if (!scheduled || !this.audioContext) return;
+    this.scheduled = null;
+    clearTimeout(this.commitTimeout);
+
+    this.stopDeckAt(scheduled.previous, Math.max(this.audioContext.currentTime, scheduled.fadeOutEnd));
+
+    this.currentDeck = scheduled.deck;
+    this.endHandledForSourceId = null;
+    this.currentDuration = scheduled.deck.track.duration;
+    console.log('[AudioManager] Scheduled transition started');
+
+    scheduled.prepared.onStart();
+    this.scheduleNextTrack();
+  }
+
+  // Drop a lined-up transition (and any decode in flight) before it is heard
+  private cancelScheduledTransition(): void {
+    clearTimeout(this.prepareTimeout);
+    this.prepareToken++;
+
+    const scheduled = this.scheduled;
+    if (!scheduled || !this.audioContext) return;
+
+    // Already under way: let it become the current track instead
+    if (this.audioContext.currentTime >= scheduled.transitionAt) {
+      this.commitScheduledTransition();
+      return;
     }
+
+    this.scheduled = null;
+    clearTimeout(this.commitTimeout);
+    this.stopDeck(scheduled.deck);
+    // Remove the pending fade-out so the current track carries on at full level
+    scheduled.previous.gain.gain.cancelScheduledValues(this.audioContext.currentTime);
+    scheduled.prepared.onCancel();
   }
 
+  // Fallback when no next track could be prepared ahead: ask for one via
+  // trackEndCallback shortly before the audible end
   private setTrackEndTimer() {
-    if (!this.currentBuffer || !this.audioContext) return;
+    if (!this.currentDeck || !this.audioContext) return;
     
-    const sourceId = this.activeSourceId;
-    if (sourceId == null) return;
+    const sourceId = this.currentDeck.id;
     
-    const timeRemaining = this.currentDuration - this.getCurrentTime();
+    // Count back from the last audible sample rather than the raw buffer end
+    const timeRemaining = this.currentDeck.audibleEnd - this.getCurrentTime();
     
     // Clear any existing timers
     clearTimeout(this.trackEndTimeout);
     
-    // Determine when to trigger next track: start early to allow crossfade overlap
+    // Determine when to trigger next track: start early so the natural-end
+    // transition overlaps the tail (a full crossfade, or the fade-out half of a dip)
     if (timeRemaining > 0) {
-      const lead = Math.min(Math.max(this.crossfadeDuration, 0), timeRemaining);
+      const style = this.getTransitionStyle('natural');
+      const transitionLead = style === 'crossfade' ? this.crossfadeDuration
+        : style === 'dip' ? this.transitionProfiles.natural.dipDuration / 2
+        : 0;
+      const lead = Math.min(transitionLead, timeRemaining);
       const fireIn = Math.max(0, timeRemaining - lead);
       console.log(`[AudioManager] Setting next-track timer in ${fireIn.toFixed(2)}s (lead=${lead.toFixed(2)}s)`);
-      this.trackEndTimerSourceId = sourceId;
       this.trackEndTimeout = setTimeout(() => {
-        if (this.activeSourceId !== sourceId || this.endHandledForSourceId === sourceId) {
+        if (this.currentDeck?.id !== sourceId || this.endHandledForSourceId === sourceId) {
           return;
         }
         if (lead > 0) {
@@ -290,7 +827,15 @@ class AudioManager {
   // Centralized end-of-track handler to prevent double-calls
   private handleTrackEnd(sourceId: number, reason: 'timer' | 'ended'): void {
     if (!this.playing) return;
-    if (this.activeSourceId !== sourceId) return;
+    if (this.currentDeck?.id !== sourceId) return;
+    
+    // The previous track ran out before the commit timer fired (timers lag
+    // when the window is hidden); the next one is already playing
+    if (this.scheduled) {
+      this.commitScheduledTransition();
+      return;
+    }
+    
     if (this.endHandledForSourceId === sourceId) return;
     
     this.endHandledForSourceId = sourceId;
@@ -303,78 +848,75 @@ class AudioManager {
   
   private trackEndTimeout: ReturnType<typeof setTimeout> | null = null;
 
+  // Fades the music out and stops it, remembering the position. Only the
+  // music decks are touched, so other buses keep playing.
   public pause(): void {
-    if (!this.audioContext) return;
-    
-    if (this.playing) {
-      this.audioContext.suspend();
-      this.currentPlaybackTime = this.getCurrentTime();
-      this.playing = false;
-      clearTimeout(this.trackEndTimeout);
+    if (!this.audioContext || !this.playing) return;
+
+    this.cancelScheduledTransition();
+    clearTimeout(this.trackEndTimeout);
+    this.currentPlaybackTime = this.getCurrentTime();
+    this.playing = false;
+
+    const now = this.audioContext.currentTime;
+    const decks = [...this.fadingDecks];
+    if (this.currentDeck) decks.push(this.currentDeck);
+    for (const deck of decks) {
+      this.fadeOutDeck(deck, now, this.pauseFadeOut);
+      this.stopDeckAt(deck, now + this.pauseFadeOut);
     }
   }
 
-  public resume(): void {
-    if (!this.audioContext) return;
-    
-    if (!this.playing && this.currentSource) {
-      this.audioContext.resume();
-      this.playing = true;
-      this.setTrackEndTimer();
-    }
+  // Restarts the paused track where it was paused, fading back in
+  public async resume(): Promise<void> {
+    if (!this.audioContext || this.playing || !this.currentDeck) return;
+
+    await this.ensureContextRunning();
+    // Stop or a new track while the context was waking up
+    if (this.playing || !this.currentDeck) return;
+
+    const deck = this.createDeck(this.currentDeck.track, this.currentPlaybackTime);
+    this.startDeck(deck, this.audioContext.currentTime, this.pauseFadeIn);
+
+    this.currentDeck = deck;
+    this.endHandledForSourceId = null;
+    this.playing = true;
+    this.scheduleNextTrack();
   }
 
   public stop(): void {
-    if (this.currentSource) {
-      try {
-        this.currentSource.stop();
-        this.currentSource.disconnect();
-      } catch (e) {
-        // Source may already be stopped, ignore error
-      }
-      this.currentSource = null;
-    }
-    if (this.nextSource) {
-      try {
-        this.nextSource.stop();
-        this.nextSource.disconnect();
-      } catch (e) {
-        // Source may already be stopped, ignore error
-      }
-      this.nextSource = null;
+    this.cancelScheduledTransition();
+    for (const deck of [...this.fadingDecks]) this.stopDeck(deck);
+    if (this.currentDeck) {
+      this.stopDeck(this.currentDeck);
+      this.currentDeck = null;
     }
     this.playing = false;
     this.currentPlaybackTime = 0;
-    this.currentBuffer = null;
-    this.nextBuffer = null;
     clearTimeout(this.trackEndTimeout);
   }
 
   public seekTo(time: number): void {
-    if (!this.currentBuffer || !this.audioContext) return;
+    if (!this.currentDeck || !this.audioContext) return;
     
-    const wasPlaying = this.playing;
-    const bufferToRestore = this.currentBuffer; // Preserve buffer before stop()
-    
-    // Stop current playback
-    this.stop();
-    
-    // Restore the buffer that was cleared by stop()
-    this.currentBuffer = bufferToRestore;
-    
-    // Start a new source at the seek position
-    if (wasPlaying && this.currentBuffer) {
-      this.playTrack(this.currentBuffer, time);
-    } else {
+    // While paused just move the resume position
+    if (!this.playing) {
       this.currentPlaybackTime = time;
+      return;
     }
+
+    const track = this.currentDeck.track; // Preserve track before stop()
+    
+    // Stop current playback and start a new source at the seek position
+    this.stop();
+    this.playTrack(track, time);
   }
 
   public getCurrentTime(): number {
-    if (!this.playing || !this.audioContext) {
+    if (!this.playing || !this.audioContext || !this.currentDeck) {
       return this.currentPlaybackTime;
     }
-    return this.audioContext.currentTime - this.currentStartTime;
+    return this.getDeckPosition(this.currentDeck);
   }
 
   public getDuration(): number {
@@ -383,18 +925,27 @@ class AudioManager {
 
   public setVolume(volume: number): void {
     this.volume = Math.max(0, Math.min(1, volume));
-    if (this.gainNode) {
-      // When updating volume, we need to maintain the normalization
-      if (this.currentBuffer && this.normalizationEnabled) {
-        const trackLoudness = this.analyzeTrackLoudness(this.currentBuffer);
-        const normalizationGain = this.calculateNormalizationGain(trackLoudness);
-        this.gainNode.gain.value = this.volume * normalizationGain;
-      } else {
-        this.gainNode.gain.value = this.volume;
-      }
+    // Volume lives on the music bus, so it never disturbs per-track fades
+    if (this.musicBus && this.audioContext) {
+      const now = this.audioContext.currentTime;
+      this.musicBus.gain.cancelScheduledValues(now);
+      this.musicBus.gain.setValueAtTime(this.volume, now);
     }
   }
 
+  // Re-apply the normalization gain to the playing track
+  private applyCurrentTrackGain(): void {
+    const deck = this.currentDeck;
+    if (!deck || !this.audioContext) return;
+    // A lined-up transition owns this gain's automation; the change applies from the next track
+    if (this.scheduled) return;
+    deck.level = this.calculateNormalizationGain(deck.track);
+    // Cancel any running fade curve first; setting .value inside one throws
+    const now = this.audioContext.currentTime;
+    deck.gain.gain.cancelScheduledValues(now);
+    deck.gain.gain.setValueAtTime(deck.level, now);
+  }
+
   public getVolume(): number {
     return this.volume;
   }
@@ -407,6 +958,335 @@ class AudioManager {
     this.trackEndCallback = callback;
   }
 
+  /**
+   * Lowers the music by the duck depth for an announcement. With an
+   * auto-release (argument or setting) the music comes back by itself.
+   */
+  public duck(autoReleaseSeconds: number = this.duckAutoRelease): void {
+    clearTimeout(this.duckReleaseTimeout);
+    // An explicit duck outlives the stingers playing right now
+    this.stingerDucked = false;
+    if (!this.ducked) {
+      this.ducked = true;
+      this.rampDuckGain(Math.pow(10, this.duckDepth / 20), this.duckAttack);
+      console.log(`[AudioManager] Ducked by ${this.duckDepth} dB`);
+      this.notifyDuckChange();
+    }
+    if (autoReleaseSeconds > 0) {
+      this.duckReleaseTimeout = setTimeout(() => this.unduck(), autoReleaseSeconds * 1000);
+    }
+  }
+
+  public unduck(): void {
+    clearTimeout(this.duckReleaseTimeout);
+    if (!this.ducked) return;
+    this.ducked = false;
+    this.rampDuckGain(1, this.duckRelease);
+    console.log('[AudioManager] Unducked');
+    this.notifyDuckChange();
+  }
+
+  public isDucked(): boolean {
+    return this.ducked;
+  }
+
+  /** Subscribe to duck state changes. Returns an unsubscribe function. */
+  public onDuckChange(callback: (ducked: boolean) => void): () => void {
+    this.duckChangeCallbacks.push(callback);
+    return () => {
+      this.duckChangeCallbacks = this.duckChangeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private notifyDuckChange(): void {
+    for (const cb of this.duckChangeCallbacks) cb(this.ducked);
+  }
+
+  // Exponential approach from wherever the gain is now, so a duck
+  // interrupted by an unduck (or vice versa) turns around smoothly
+  private rampDuckGain(target: number, seconds: number): void {
+    if (!this.duckGain || !this.audioContext) return;
+    const param = this.duckGain.gain;
+    const now = this.audioContext.currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    // Three time constants reach 95 % of the way
+    param.setTargetAtTime(target, now, Math.max(0.001, seconds / 3));
+  }
+
+  // Depth and ramps apply from the next duck/unduck; depth also to an active duck
+  public setDuckSettings(settings: { depth: number; attack: number; release: number; autoRelease: number }): void {
+    this.duckDepth = Math.max(-40, Math.min(0, settings.depth));
+    this.duckAttack = Math.max(0, Math.min(5, settings.attack));
+    this.duckRelease = Math.max(0, Math.min(10, settings.release));
+    this.duckAutoRelease = Math.max(0, Math.min(600, settings.autoRelease));
+    if (this.ducked) this.rampDuckGain(Math.pow(10, this.duckDepth / 20), this.duckAttack);
+  }
+
+  public getDuckSettings(): { depth: number; attack: number; release: number; autoRelease: number } {
+    return {
+      depth: this.duckDepth,
+      attack: this.duckAttack,
+      release: this.duckRelease,
+      autoRelease: this.duckAutoRelease
+    };
+  }
+
+  // Decode a short clip for the stinger bus (no analysis, pooling or streaming)
+  public async decodeClip(file: File): Promise<AudioBuffer> {
+    if (!this.audioContext) throw new Error('Audio context not initialized');
+    return this.audioContext.decodeAudioData(await file.arrayBuffer());
+  }
+
+  // Play a clip on the stinger bus on top of whatever the music is doing
+  public async playStinger(buffer: AudioBuffer): Promise<void> {
+    if (!this.audioContext || !this.stingerBus) {
+      throw new Error('Audio context not initialized');
+    }
+    await this.ensureContextRunning();
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.stingerBus);
+    source.onended = () => {
+      source.disconnect();
+      this.activeStingers.delete(source);
+      if (this.activeStingers.size === 0 && this.stingerDucked) {
+        this.stingerDucked = false;
+        this.unduck();
+      }
+    };
+    source.start();
+    this.activeStingers.add(source);
+
+    if (this.stingerAutoDuck && !this.ducked) {
+      this.duck(0);
+      this.stingerDucked = true;
+    }
+  }
+
+  public stopStingers(): void {
+    // onended still fires and releases any stinger duck
+    for (const source of this.activeStingers) {
+      try {
+        source.stop();
+      } catch (e) {
+        // Already stopped, ignore error
+      }
+    }
+  }
+
+  public setStingerVolume(volume: number): void {
+    this.stingerVolume = Math.max(0, Math.min(1, volume));
+    if (this.stingerBus && this.audioContext) {
+      this.stingerBus.gain.setValueAtTime(this.stingerVolume, this.audioContext.currentTime);
+    }
+  }
+
+  public getStingerVolume(): number {
+    return this.stingerVolume;
+  }
+
+  public setStingerAutoDuck(enabled: boolean): void {
+    this.stingerAutoDuck = enabled;
+  }
+
+  public isStingerAutoDuck(): boolean {
+    return this.stingerAutoDuck;
+  }
+
+  // Waveform overview of the current track; null for streamed tracks,
+  // which are never fully decoded
+  public getCurrentWaveform(): WaveformPeaks | null {
+    const track = this.currentDeck?.track;
+    if (!track || isStreamedTrack(track)) return null;
+
+    let peaks = this.waveforms.get(track);
+    if (!peaks) {
+      peaks = computeWaveformPeaks(track);
+      this.waveforms.set(track, peaks);
+    }
+    return peaks;
+  }
+
+  /**
+   * Track position (seconds) where the transition into the next track
+   * begins: the scheduled one if it is already lined up, otherwise where a
+   * natural transition would start.
+   */
+  public getTransitionStartTime(): number | null {
+    const deck = this.currentDeck;
+    if (!deck) return null;
+
+    if (this.scheduled && this.scheduled.previous === deck) {
+      return this.scheduled.transitionAt - deck.startTime;
+    }
+    const style = this.getTransitionStyle('natural');
+    const timing = this.getTransitionTiming(style, 'natural', this.crossfadeDuration);
+    return Math.max(0, deck.audibleEnd - timing.lead);
+  }
+
+  /**
+   * Peak, RMS and peak-hold levels (dBFS) of the final output, after the
+   * limiter, plus whether it has clipped since the last reset.
+   */
+  public getOutputLevels(): OutputLevels {
+    return this.outputMeter?.getLevels() ?? { channels: [], clipped: false };
+  }
+
+  public resetClipIndicator(): void {
+    this.outputMeter?.resetClip();
+  }
+
+  /**
+   * A stream of the final output, exactly as it reaches the speakers, for
+   * recording the program mix. Call releaseRecordingStream() when done.
+   */
+  public getRecordingStream(): MediaStream | null {
+    if (!this.audioContext || !this.outputNode) return null;
+    if (!this.recordingDestination) {
+      this.recordingDestination = this.audioContext.createMediaStreamDestination();
+      this.outputNode.connect(this.recordingDestination);
+    }
+    return this.recordingDestination.stream;
+  }
+
+  public releaseRecordingStream(): void {
+    if (!this.recordingDestination) return;
+    this.outputNode?.disconnect(this.recordingDestination);
+    this.recordingDestination = null;
+  }
+
+  // Raise an incident when the music stays silent although we are playing
+  // (silent decode, a source that stopped early, a missed track end). The
+  // music is measured ahead of the fader and duck, so neither can trigger it.
+  private checkDeadAir(): void {
+    // Paused or switched off: nothing to watch
+    if (!this.playing || !this.musicMeter || this.deadAirTimeout <= 0) {
+      this.silentSince = null;
+      return;
+    }
+
+    const { channels } = this.musicMeter.getLevels();
+    const loudest = Math.max(...channels.map(channel => channel.peak), -Infinity);
+    const now = performance.now();
+    if (loudest > this.deadAirThreshold) {
+      this.silentSince = null;
+      return;
+    }
+    if (this.silentSince === null) {
+      this.silentSince = now;
+      return;
+    }
+
+    const silentSeconds = (now - this.silentSince) / 1000;
+    if (silentSeconds >= this.deadAirTimeout) {
+      console.warn(`[AudioManager] Dead air: ${silentSeconds.toFixed(1)}s of silence while playing`);
+      // Start counting again so a recovery that brings no sound fires another incident
+      this.silentSince = now;
+      for (const cb of this.deadAirCallbacks) cb(silentSeconds);
+    }
+  }
+
+  /** Subscribe to dead-air incidents. Returns an unsubscribe function. */
+  public onDeadAir(callback: (silentSeconds: number) => void): () => void {
+    this.deadAirCallbacks.push(callback);
+    return () => {
+      this.deadAirCallbacks = this.deadAirCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  public setDeadAirTimeout(seconds: number): void {
+    this.deadAirTimeout = Math.max(0, Math.min(60, seconds));
+    this.silentSince = null;
+    console.log(`Dead-air watchdog ${this.deadAirTimeout > 0 ? `after ${this.deadAirTimeout}s of silence` : 'disabled'}`);
+  }
+
+  public getDeadAirTimeout(): number {
+    return this.deadAirTimeout;
+  }
+
+  public supportsOutputDeviceSelection(): boolean {
+    return typeof this.audioContext?.setSinkId === 'function';
+  }
+
+  // Named audio outputs; labels may be empty in a browser without media permission
+  public async getOutputDevices(): Promise<OutputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      // 'default' and 'communications' are aliases of real devices
+      .filter(d => d.kind === 'audiooutput' && d.label && d.deviceId !== 'default' && d.deviceId !== 'communications')
+      .map(d => ({ id: d.deviceId, label: d.label }));
+  }
+
+  /**
+   * Play to the output with this label, or the system default for null.
+   * Resolves to false if the device is not connected; playback then uses the
+   * default and switches over when the device appears.
+   */
+  public async setOutputDevice(label: string | null): Promise<boolean> {
+    this.outputDeviceLabel = label;
+    // A newly chosen device starts fresh, so only its own loss is reported
+    this.outputDeviceAvailable = true;
+    await this.applyOutputDevice();
+    return this.outputDeviceAvailable;
+  }
+
+  public getOutputDevice(): string | null {
+    return this.outputDeviceLabel;
+  }
+
+  /** Subscribe to the chosen output device disappearing or coming back. Returns an unsubscribe function. */
+  public onOutputDeviceChange(callback: (event: OutputDeviceEvent, label: string) => void): () => void {
+    this.outputDeviceCallbacks.push(callback);
+    return () => {
+      this.outputDeviceCallbacks = this.outputDeviceCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  // Route the output to the chosen device if it is connected, otherwise to
+  // the default. Runs on every device change; updates are serialised.
+  private applyOutputDevice(): Promise<void> {
+    this.outputDeviceUpdate = this.outputDeviceUpdate.then(async () => {
+      const context = this.audioContext;
+      if (!context?.setSinkId) return;
+
+      const label = this.outputDeviceLabel;
+      let sinkId = '';
+      let available = true;
+      try {
+        if (label) {
+          const device = (await this.getOutputDevices()).find(d => d.label === label);
+          if (device) sinkId = device.id;
+          else available = false;
+        }
+        if (context.sinkId !== sinkId) await context.setSinkId(sinkId);
+      } catch (err) {
+        console.error(`[AudioManager] Failed to switch output to "${label ?? 'default'}":`, err);
+        available = false;
+        if (context.sinkId !== '') await context.setSinkId('').catch(() => undefined);
+      }
+
+      const wasAvailable = this.outputDeviceAvailable;
+      this.outputDeviceAvailable = available;
+      if (label && available !== wasAvailable) {
+        console.warn(`[AudioManager] Output device "${label}" ${available ? 'is back' : 'is unavailable, using the default output'}`);
+        for (const cb of this.outputDeviceCallbacks) cb(available ? 'restored' : 'lost', label);
+      }
+    });
+    return this.outputDeviceUpdate;
+  }
+
+  public setPauseFades(fadeOutSeconds: number, fadeInSeconds: number): void {
+    this.pauseFadeOut = Math.max(0, Math.min(2, fadeOutSeconds));
+    this.pauseFadeIn = Math.max(0, Math.min(2, fadeInSeconds));
+  }
+
+  public getPauseFades(): { fadeOut: number; fadeIn: number } {
+    return { fadeOut: this.pauseFadeOut, fadeIn: this.pauseFadeIn };
+  }
+
   public setCrossfadeDuration(seconds: number): void {
     this.crossfadeDuration = Math.max(0, Math.min(10, seconds));
     console.log(`Crossfade duration set to ${this.crossfadeDuration} seconds`);
@@ -415,26 +1295,141 @@ class AudioManager {
   public getCrossfadeDuration(): number {
     return this.crossfadeDuration;
   }
+
+  public setCrossfadeCurve(curve: CrossfadeCurve): void {
+    this.crossfadeCurve = curve;
+    console.log(`Crossfade curve set to ${curve}`);
+  }
+
+  public getCrossfadeCurve(): CrossfadeCurve {
+    return this.crossfadeCurve;
+  }
+  
+  public setTransitionProfile(reason: TransitionReason, profile: TransitionProfile): void {
+    this.transitionProfiles[reason] = {
+      style: profile.style,
+      dipDuration: Math.max(0, Math.min(5, profile.dipDuration)),
+    };
+    console.log(`Transition for ${reason}: ${profile.style}`);
+  }
+
+  public getTransitionProfiles(): Record<TransitionReason, TransitionProfile> {
+    return { ...this.transitionProfiles };
+  }
   
   public setNormalizationEnabled(enabled: boolean): void {
     this.normalizationEnabled = enabled;
     console.log(`Volume normalization ${enabled ? 'enabled' : 'disabled'}`);
     
     // Apply normalization to current track if playing
-    if (this.playing && this.currentBuffer && this.gainNode) {
-      if (enabled) {
-        const trackLoudness = this.analyzeTrackLoudness(this.currentBuffer);
-        const normalizationGain = this.calculateNormalizationGain(trackLoudness);
-        this.gainNode.gain.value = this.volume * normalizationGain;
-      } else {
-        this.gainNode.gain.value = this.volume;
-      }
-    }
+    if (this.playing) this.applyCurrentTrackGain();
   }
   
   public isNormalizationEnabled(): boolean {
     return this.normalizationEnabled;
   }
+
+  public setNormalizationSource(source: NormalizationSource): void {
+    if (!NORMALIZATION_SOURCES.includes(source)) return;
+    this.normalizationSource = source;
+    console.log(`Normalization source set to ${source}`);
+    if (this.playing) this.applyCurrentTrackGain();
+  }
+
+  public getNormalizationSource(): NormalizationSource {
+    return this.normalizationSource;
+  }
+
+  public setSilenceTrimEnabled(enabled: boolean): void {
+    this.silenceTrimEnabled = enabled;
+    console.log(`Silence trimming ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  public isSilenceTrimEnabled(): boolean {
+    return this.silenceTrimEnabled;
+  }
+
+  // Thresholds apply from the next track onwards
+  public setSilenceThresholds(startDb: number, endDb: number): void {
+    this.silenceStartThreshold = Math.max(-90, Math.min(-20, startDb));
+    this.silenceEndThreshold = Math.max(-90, Math.min(-20, endDb));
+  }
+
+  public getSilenceThresholds(): { start: number; end: number } {
+    return { start: this.silenceStartThreshold, end: this.silenceEndThreshold };
+  }
+
+  public setPeakCeiling(dbtp: number): void {
+    this.peakCeiling = Math.max(-12, Math.min(0, dbtp));
+    console.log(`True-peak ceiling set to ${this.peakCeiling} dBTP`);
+    this.updateCeilingCurve();
+    if (this.playing) this.applyCurrentTrackGain();
+  }
+
+  public getPeakCeiling(): number {
+    return this.peakCeiling;
+  }
+
+  public setLimiterEnabled(enabled: boolean): void {
+    this.limiterEnabled = enabled;
+    console.log(`Master limiter ${enabled ? 'enabled' : 'disabled'}`);
+    this.rebuildMasterChain();
+  }
+
+  public isLimiterEnabled(): boolean {
+    return this.limiterEnabled;
+  }
+
+  public setLimiterThreshold(db: number): void {
+    this.limiterThreshold = Math.max(-30, Math.min(0, db));
+    if (this.limiter) this.limiter.threshold.value = this.limiterThreshold;
+  }
+
+  public getLimiterThreshold(): number {
+    return this.limiterThreshold;
+  }
+
+  // Gains in dB per band; bands left out keep their current gain
+  public setEqGains(gains: Partial<EqGains>): void {
+    for (const band of EQ_BANDS) {
+      const db = gains[band];
+      if (typeof db !== 'number') continue;
+      this.eqGains[band] = clampEqGain(db);
+      // Short glide so dragging a slider doesn't zipper
+      if (this.audioContext && this.equalizer) {
+        this.equalizer[band].gain.setTargetAtTime(this.eqGains[band], this.audioContext.currentTime, 0.02);
+      }
+    }
+  }
+
+  public getEqGains(): EqGains {
+    return { ...this.eqGains };
+  }
+
+  public setOutputMode(mode: OutputMode): void {
+    if (!OUTPUT_MODES.includes(mode)) return;
+    this.outputMode = mode;
+    console.log(`Output mode set to ${mode}`);
+    this.channelMapper?.setMode(mode);
+  }
+
+  public getOutputMode(): OutputMode {
+    return this.outputMode;
+  }
+
+  // Applies to tracks loaded from now on
+  public setStreamingThresholds(minutes: number, megabytes: number): void {
+    this.streamingDurationThreshold = Math.max(1, minutes) * 60;
+    this.streamingSizeThreshold = Math.max(1, megabytes) * 1024 * 1024;
+    console.log(`Streaming tracks longer than ${minutes} min or larger than ${megabytes} MB`);
+  }
+
+  public getStreamingThresholds(): { minutes: number; megabytes: number } {
+    return {
+      minutes: this.streamingDurationThreshold / 60,
+      megabytes: this.streamingSizeThreshold / (1024 * 1024)
+    };
+  }
 }
 
 export default AudioManager.getInstance();
@@ -0,0 +1,122 @@
+// Audio files either come from a folder picked in the browser (real File
+// objects) or, in the Electron build, from library folders listed by the main
+// process. The latter are LibraryFiles: File objects without in-memory
+// content whose bytes are fetched through the autodj-media:// protocol.
+
+const MEDIA_URL_PREFIX = 'autodj-media://file/';
+
+function getLibraryApi() {
+  try { return window.electronAPI?.library ?? null; }
+  catch { return null; }
+}
+
+/** Whether music folders can be opened by path (Electron build only). */
+export function isLibraryAvailable(): boolean {
+  return getLibraryApi() !== null;
+}
+
+/**
+ * A file under a library folder. Only name, type, size, lastModified,
+ * webkitRelativePath, arrayBuffer() and stream() are meaningful; for anything
+ * that needs a URL use getFileUrl().
+ */
+export class LibraryFile extends File {
+  public readonly absolutePath: string;
+
+  constructor(entry: LibraryFileEntry) {
+    const name = entry.relativePath.split('/').pop() ?? entry.relativePath;
+    super([], name, { type: entry.type, lastModified: entry.lastModified });
+    this.absolutePath = entry.path;
+    // size and webkitRelativePath are read-only getters on File; shadow them
+    Object.defineProperty(this, 'size', { value: entry.size });
+    Object.defineProperty(this, 'webkitRelativePath', { value: entry.relativePath });
+  }
+
+  public async arrayBuffer(): Promise<ArrayBuffer> {
+    const response = await fetch(getFileUrl(this));
+    if (!response.ok) throw new Error(`Failed to read ${this.absolutePath} (${response.status})`);
+    return response.arrayBuffer();
+  }
+
+  // Fetched lazily, so a reader that stops early (e.g. a tag parser) never downloads the rest
+  public stream(): ReadableStream<Uint8Array> {
+    const url = getFileUrl(this);
+    const absolutePath = this.absolutePath;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (!reader) {
+          const response = await fetch(url);
+          if (!response.ok || !response.body) throw new Error(`Failed to read ${absolutePath} (${response.status})`);
+          reader = response.body.getReader();
+        }
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      },
+      cancel(reason) {
+        return reader?.cancel(reason);
+      },
+    });
+  }
+}
+
+/** A URL for media elements: the protocol URL of a library file, or an object URL. */
+export function getFileUrl(file: File): string {
+  if (file instanceof LibraryFile) return MEDIA_URL_PREFIX + encodeURIComponent(file.absolutePath);
+  return URL.createObjectURL(file);
+}
+
+/** Frees a URL from getFileUrl(). */
+export function releaseFileUrl(url: string): void {
+  if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+}
+
+/** Shows the native folder picker. Resolves to null if cancelled or not available. */
+export async function chooseLibraryFolder(): Promise<string | null> {
+  const api = getLibraryApi();
+  return api ? api.chooseFolder() : null;
+}
+
+/** Stops watching a library folder and serving its files. */
+export async function forgetLibraryFolder(root: string): Promise<void> {
+  await getLibraryApi()?.forget(root);
+}
+
+/** Files that appeared, disappeared or moved under a library folder while it was open. */
+export interface LibraryFileChange {
+  root: string;
+  added: LibraryFile[];       // new files, or known files whose contents changed
+  removed: string[];          // webkitRelativePaths
+  renamed: Array<{ from: string; to: LibraryFile }>;
+}
+
+/** Registers a callback for changes under the scanned library folders. */
+export function watchLibraryFolders(callback: (change: LibraryFileChange) => void): void {
+  getLibraryApi()?.onChange(change => callback({
+    root: change.root,
+    added: change.added.map(entry => new LibraryFile(entry)),
+    removed: change.removed,
+    renamed: change.renamed.map(({ from, to }) => ({ from, to: new LibraryFile(to) })),
+  }));
+}
+
+/** Lists the audio files under a library folder, or null if it no longer exists. */
+export async function scanLibraryFolder(root: string): Promise<LibraryFile[] | null> {
+  const api = getLibraryApi();
+  if (!api) return null;
+  const entries = await api.scan(root);
+  return entries ? entries.map(entry => new LibraryFile(entry)) : null;
+}
+
+/**
+ * Lists the audio files under the sound effects folder, or null if it no
+ * longer exists. Only one such folder is served; it is not watched and not
+ * part of the music library.
+ */
+export async function scanStingerFolder(root: string): Promise<LibraryFile[] | null> {
+  const api = getLibraryApi();
+  if (!api) return null;
+  const entries = await api.scanStingers(root);
+  return entries ? entries.map(entry => new LibraryFile(entry)) : null;
+}
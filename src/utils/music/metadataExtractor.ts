@@ -1,5 +1,7 @@
 import * as mm from 'music-metadata';
 import { TrackMetadata } from './types';
+import { GainTags, parseITunNorm, parseR128Gain } from '../audio/gainTags';
+import { getFileUrl, releaseFileUrl } from '../fileSource';
 
 // Cache to store already processed metadata
 const metadataCache = new Map<string, TrackMetadata>();
@@ -12,19 +14,17 @@ export async function extractMetadata(file: File, folderName: string): Promise<T
   }
 
   try {
-    const arrayBuffer = await file.arrayBuffer();
-    const metadata = await mm.parseBuffer(
-      new Uint8Array(arrayBuffer),
-      { mimeType: file.type }
-    );
+    // Streams the file and stops after the tags and headers, so long mixes are never read whole
+    const metadata = await mm.parseBlob(file);
     
     const title = metadata.common.title || formatTitleFromFilename(file.name);
     const artist = metadata.common.artist || tryExtractArtistFromFilename(file.name);
     const album = metadata.common.album || folderName;
     
     const duration = metadata.format.duration || 0;
+    const gainTags = readGainTags(metadata);
     
-    console.log('Successfully extracted metadata:', { title, artist, album, duration });
+    console.log('Successfully extracted metadata:', { title, artist, album, duration, ...gainTags });
     
     const trackMetadata = {
       title,
@@ -33,7 +33,8 @@ export async function extractMetadata(file: File, folderName: string): Promise<T
       duration,
       path: file.webkitRelativePath,
       folder: folderName,
-      file: file
+      file: file,
+      ...gainTags
     };
 
     // Store in cache for future use
@@ -51,6 +52,45 @@ export async function extractMetadata(file: File, folderName: string): Promise<T
   }
 }
 
+// Loudness tags in order of preference: ReplayGain (common tags), then
+// R128 (Opus / Vorbis comments), then iTunes Sound Check
+function readGainTags(metadata: mm.IAudioMetadata): GainTags {
+  const { common } = metadata;
+  const tags: GainTags = {};
+  if (common.replaygain_track_gain) tags.trackGain = common.replaygain_track_gain.dB;
+  if (common.replaygain_album_gain) tags.albumGain = common.replaygain_album_gain.dB;
+  if (common.replaygain_track_peak) tags.trackPeak = common.replaygain_track_peak.ratio;
+  if (common.replaygain_album_peak) tags.albumPeak = common.replaygain_album_peak.ratio;
+  if (tags.trackGain !== undefined || tags.albumGain !== undefined) return tags;
+
+  let iTunNorm: string | null = null;
+  for (const nativeTags of Object.values(metadata.native)) {
+    for (const { id, value } of nativeTags) {
+      const upperId = id.toUpperCase();
+      if (upperId === 'R128_TRACK_GAIN' && typeof value === 'string') {
+        tags.trackGain = parseR128Gain(value) ?? undefined;
+      } else if (upperId === 'R128_ALBUM_GAIN' && typeof value === 'string') {
+        tags.albumGain = parseR128Gain(value) ?? undefined;
+      } else if (upperId.endsWith('ITUNNORM') && typeof value === 'string') {
+        // MP4 freeform atom (----:com.apple.iTunes:iTunNORM)
+        iTunNorm = value;
+      } else if (upperId === 'COMM' && isITunNormComment(value)) {
+        // ID3v2 comment frame with the iTunNORM descriptor
+        iTunNorm = value.text;
+      }
+    }
+  }
+  if (tags.trackGain !== undefined || tags.albumGain !== undefined) return tags;
+
+  return (iTunNorm && parseITunNorm(iTunNorm)) || {};
+}
+
+function isITunNormComment(value: unknown): value is { descriptor: string; text: string } {
+  if (typeof value !== 'object' || value === null) return false;
+  const { descriptor, text } = value as { descriptor?: unknown; text?: unknown };
+  return descriptor === 'iTunNORM' && typeof text === 'string';
+}
+
 // A lightweight function to create basic metadata without parsing the file
 // Used for display in the library before actual playback
 export function createBasicMetadata(file: File, folderName: string): TrackMetadata {
@@ -70,6 +110,11 @@ export function clearMetadataCache(): void {
   metadataCache.clear();
 }
 
+// Drop one file's entry, e.g. after it was replaced or removed on disk
+export function forgetMetadata(filePath: string): void {
+  metadataCache.delete(filePath);
+}
+
 // Check if metadata is already cached
 export function isMetadataCached(filePath: string): boolean {
   return metadataCache.has(filePath);
@@ -136,9 +181,9 @@ export async function fallbackMetadataExtraction(file: File, folderName: string)
       });
     });
     
-    const objectURL = URL.createObjectURL(file);
+    const objectURL = getFileUrl(file);
     audio.src = objectURL;
     
-    setTimeout(() => URL.revokeObjectURL(objectURL), 5000);
+    setTimeout(() => releaseFileUrl(objectURL), 5000);
   });
 }
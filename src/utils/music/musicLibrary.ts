@@ -1,30 +1,116 @@
 import { toast } from '@/hooks/use-toast';
-import audioManager from '../audioContext';
-import { TrackMetadata } from './types';
+import audioManager, { PreparedTrack } from '../audioContext';
+import { TrackMetadata, DeadAirIncident, PlaylistNode } from './types';
+import { loadDocument, saveDocument } from '../persistentStore';
+import { TransitionReason } from '../audio/transitions';
+import { LibraryFileChange, forgetLibraryFolder, isLibraryAvailable, scanLibraryFolder, watchLibraryFolders } from '../fileSource';
 import {
   extractMetadata,
   createBasicMetadata,
   isMetadataCached,
-  clearMetadataCache
+  clearMetadataCache,
+  forgetMetadata
 } from './metadataExtractor';
 
+const DEAD_AIR_LOG = 'dead-air-log';
+const MAX_DEAD_AIR_INCIDENTS = 200;
+
+// Playlists that also play the tracks of every playlist below them
+const INCLUDE_DESCENDANTS_STORAGE_KEY = 'playlist-include-descendants';
+
+const PLAY_HISTORY = 'play-history';
+const PLAY_HISTORY_SAVE_DELAY_MS = 1000;
+
+// Stored play history; also the format of exported history files
+interface StoredPlayHistory {
+  version: 1;
+  exportedAt?: string;
+  // playlist → track key → when it was last played (ms since epoch)
+  playlists: Record<string, Record<string, number>>;
+}
+
+// Electron only: library folders to reload on startup, and recently used ones
+const LIBRARY_DOCUMENT = 'music-library';
+const MAX_RECENT_LIBRARIES = 8;
+
+interface StoredLibrary {
+  roots: string[];
+  recent: string[];
+}
+
+// Play history is keyed by the track's path below the picked folder, so it
+// still matches on another machine where that folder has a different name
+function getHistoryKey(trackPath: string): string {
+  const slash = trackPath.indexOf('/');
+  return slash === -1 ? trackPath : trackPath.slice(slash + 1);
+}
+
+// The playlist a file belongs to: the folder holding it, as a path below the
+// picked folder ("Pit/Hype"), or the picked folder's name for files directly inside it
+function getPlaylistName(relativePath: string): string | null {
+  const pathParts = relativePath.split('/');
+  if (pathParts.length < 2) return null;
+  return pathParts.length > 2 ? pathParts.slice(1, -1).join('/') : pathParts[0];
+}
+
+// Strip leading numbering like "01 - " or "3 - " from a folder name
+function stripNumbering(name: string): string {
+  return name.replace(/^\d+\s*[-–]\s*/, '');
+}
+
 class MusicLibrary {
   private static instance: MusicLibrary;
   private tracks: Map<string, TrackMetadata[]> = new Map();
-  private playedTracks: Map<string, Set<string>> = new Map();
+  // Tracks played in the current no-repeat cycle of each playlist, by history
+  // key, with when they played. Persisted so a restart continues the cycle.
+  private playedTracks: Map<string, Map<string, number>> = new Map();
+  private playHistorySaveTimeout: ReturnType<typeof setTimeout> | null = null;
+  private historyChangeCallbacks: Array<() => void> = [];
+  private includeDescendants: Set<string> = new Set();
   private defaultFolder: string | null = null;
   private currentTrack: TrackMetadata | null = null;
   private currentFolder: string | null = null;
   // Multi-subscriber callbacks for track changes
   private trackChangeCallbacks: Array<(track: TrackMetadata | null) => void> = [];
   private onDeckTracks: Map<string, TrackMetadata> = new Map();
+  // Folders whose on-deck track is also decoded ahead (automation-mapped playlists)
+  private preloadFolders: Set<string> = new Set();
   private filesMap: Map<string, File> = new Map();
 
   // Queue
   private queue: TrackMetadata[] = [];
   private queueChangeCallbacks: Array<(queue: TrackMetadata[]) => void> = [];
 
-  private constructor() {}
+  // Dead-air incidents, newest last; persisted so they survive a restart
+  private deadAirIncidents: DeadAirIncident[] = [];
+  private deadAirCallbacks: Array<(incident: DeadAirIncident) => void> = [];
+
+  // Library folders opened by path (Electron), newest last
+  private libraryRoots: string[] = [];
+  private recentLibraries: string[] = [];
+  private storedLibrary: Promise<StoredLibrary> | null = null;
+  private libraryChangeCallbacks: Array<() => void> = [];
+
+  private constructor() {
+    // The audio manager asks for the next track ahead of time so it can
+    // schedule the transition on the audio clock
+    audioManager.setNextTrackProvider(() => this.prepareNextTrack());
+    audioManager.onDeadAir(silentSeconds => this.handleDeadAir(silentSeconds));
+    watchLibraryFolders(change => this.applyLibraryChange(change));
+
+    loadDocument<DeadAirIncident[]>(DEAD_AIR_LOG).then(saved => {
+      if (Array.isArray(saved)) this.deadAirIncidents = [...saved, ...this.deadAirIncidents];
+    });
+    try {
+      const saved = JSON.parse(localStorage.getItem(INCLUDE_DESCENDANTS_STORAGE_KEY) ?? '[]');
+      if (Array.isArray(saved)) this.includeDescendants = new Set(saved.filter(name => typeof name === 'string'));
+    } catch {
+      // ignore parse errors
+    }
+    loadDocument<StoredPlayHistory>(PLAY_HISTORY).then(saved => {
+      if (saved?.version === 1 && this.mergePlayHistory(saved) > 0) this.notifyHistoryChange();
+    });
+  }
 
   public static getInstance(): MusicLibrary {
     if (!MusicLibrary.instance) {
@@ -43,7 +129,7 @@ class MusicLibrary {
     return shuffled;
   }
 
-  public async addFolder(files: FileList): Promise<void> {
+  public async addFolder(files: ArrayLike<File>): Promise<void> {
     try {
       const filesByFolder: Record<string, File[]> = {};
 
@@ -51,11 +137,8 @@ class MusicLibrary {
         const file = files[i];
         if (!file.type.startsWith('audio/')) continue;
 
-        const pathParts = file.webkitRelativePath.split('/');
-        if (pathParts.length < 2) continue;
-
-        let folderName = pathParts[0];
-        if (pathParts.length > 2) folderName = pathParts[1];
+        const folderName = getPlaylistName(file.webkitRelativePath);
+        if (!folderName) continue;
 
         if (!filesByFolder[folderName]) filesByFolder[folderName] = [];
         filesByFolder[folderName].push(file);
@@ -65,6 +148,11 @@ class MusicLibrary {
       // Insert folders in sorted order so getFolders() stays O(n)
       const sortedFolderNames = Object.keys(filesByFolder).sort((a, b) => a.localeCompare(b));
 
+      // Set default to the first sorted folder (matches the first item shown in the UI)
+      if (this.defaultFolder === null && sortedFolderNames.length > 0) {
+        this.defaultFolder = sortedFolderNames[0];
+      }
+
       for (const folderName of sortedFolderNames) {
         const folderFiles = filesByFolder[folderName];
         const folderTracks: TrackMetadata[] = folderFiles.map(file =>
@@ -73,17 +161,9 @@ class MusicLibrary {
         const shuffledTracks = this.shuffleArray(folderTracks);
         this.tracks.set(folderName, shuffledTracks);
 
-        if (!this.playedTracks.has(folderName)) {
-          this.playedTracks.set(folderName, new Set<string>());
-        }
         this.preloadNextTrackInFolder(folderName);
       }
 
-      // Set default to the first sorted folder (matches the first item shown in the UI)
-      if (this.defaultFolder === null && sortedFolderNames.length > 0) {
-        this.defaultFolder = sortedFolderNames[0];
-      }
-
       toast({
         title: "Music loaded successfully",
         description: `Added ${Object.keys(filesByFolder).length} playlists with ${this.filesMap.size} tracks to your library.`
@@ -103,6 +183,173 @@ class MusicLibrary {
     }
   }
 
+  // ─── Library folders (Electron) ───────────────────────────────────────────
+
+  private loadStoredLibrary(): Promise<StoredLibrary> {
+    if (!this.storedLibrary) {
+      this.storedLibrary = loadDocument<StoredLibrary>(LIBRARY_DOCUMENT).then(saved => {
+        const roots = Array.isArray(saved?.roots) ? saved.roots.filter(r => typeof r === 'string') : [];
+        const recent = Array.isArray(saved?.recent) ? saved.recent.filter(r => typeof r === 'string') : [];
+        this.recentLibraries = recent;
+        return { roots, recent };
+      });
+    }
+    return this.storedLibrary;
+  }
+
+  private saveLibrary(): void {
+    const stored: StoredLibrary = { roots: this.libraryRoots, recent: this.recentLibraries };
+    saveDocument(LIBRARY_DOCUMENT, stored);
+  }
+
+  /**
+   * Adds a music folder by path: the main process lists its audio files and
+   * the folder is remembered for the next launch. Resolves to false if the
+   * folder is missing or has no audio files.
+   */
+  public async addLibraryRoot(root: string): Promise<boolean> {
+    await this.loadStoredLibrary();
+    const files = await scanLibraryFolder(root);
+    if (!files || files.length === 0) {
+      toast({
+        variant: "destructive",
+        title: files ? "No music found" : "Folder not found",
+        description: files
+          ? `${root} does not contain any audio files.`
+          : `${root} is no longer available. Is the drive connected?`
+      });
+      return false;
+    }
+
+    await this.addFolder(files);
+    if (!this.libraryRoots.includes(root)) this.libraryRoots.push(root);
+    this.recentLibraries = [root, ...this.recentLibraries.filter(r => r !== root)].slice(0, MAX_RECENT_LIBRARIES);
+    this.saveLibrary();
+    return true;
+  }
+
+  /**
+   * Reloads the library folders that were open at the end of the last
+   * session. Resolves to true if any of them could be loaded.
+   */
+  public async restoreLibrary(): Promise<boolean> {
+    if (!isLibraryAvailable()) return false;
+    const { roots } = await this.loadStoredLibrary();
+    // Keep folders that are missing right now (e.g. a drive that isn't plugged
+    // in yet) so they are tried again next launch
+    this.libraryRoots = [...roots];
+    let restored = false;
+    for (const root of roots) {
+      if (await this.addLibraryRoot(root)) restored = true;
+    }
+    return restored;
+  }
+
+  public getLibraryRoots(): string[] {
+    return [...this.libraryRoots];
+  }
+
+  public async getRecentLibraries(): Promise<string[]> {
+    await this.loadStoredLibrary();
+    return [...this.recentLibraries];
+  }
+
+  // Files added, removed or renamed on disk while the library is open. Only
+  // the affected tracks change; play history and the queue are kept.
+  private applyLibraryChange(change: LibraryFileChange): void {
+    if (!this.libraryRoots.includes(change.root)) return;
+
+    const touched = new Set<string>();
+    for (const { from, to } of change.renamed) {
+      this.removeTrackByPath(from, touched);
+      const folderName = this.addTrackFile(to, touched);
+      // A renamed track keeps its place in the no-repeat cycle
+      const fromFolder = getPlaylistName(from);
+      const playedAt = fromFolder ? this.playedTracks.get(fromFolder)?.get(getHistoryKey(from)) : undefined;
+      if (folderName && playedAt !== undefined) {
+        this.getPlayedTracks(folderName).set(getHistoryKey(to.webkitRelativePath), playedAt);
+        this.schedulePlayHistorySave();
+      }
+    }
+    for (const path of change.removed) this.removeTrackByPath(path, touched);
+    for (const file of change.added) this.addTrackFile(file, touched);
+    if (touched.size === 0) return;
+
+    if (this.defaultFolder && !this.tracks.has(this.defaultFolder)) {
+      this.defaultFolder = this.getFolders()[0] ?? null;
+    }
+    // Pick a new on-deck track where the old one is gone. A playlist that
+    // includes its descendants can be affected by changes below it.
+    for (const folderName of this.getFolders()) {
+      const onDeck = this.onDeckTracks.get(folderName);
+      const stale = onDeck
+        ? !this.getPlaylistTracks(folderName).some(t => t.path === onDeck.path)
+        : touched.has(folderName);
+      if (stale) this.preloadNextTrackInFolder(folderName);
+    }
+
+    console.log(`[MusicLibrary] Library changed on disk: +${change.added.length} −${change.removed.length} ~${change.renamed.length}`);
+    for (const cb of this.libraryChangeCallbacks) cb();
+    this.extractAllMetadataInBackground();
+  }
+
+  // Play history is left alone, so a file that comes back keeps its place
+  private removeTrackByPath(path: string, touched: Set<string>): void {
+    for (const [folderName, tracks] of this.tracks) {
+      const index = tracks.findIndex(t => t.path === path);
+      if (index === -1) continue;
+
+      tracks.splice(index, 1);
+      if (tracks.length === 0) {
+        this.tracks.delete(folderName);
+        this.onDeckTracks.delete(folderName);
+      }
+      this.filesMap.delete(path);
+      forgetMetadata(path);
+      touched.add(folderName);
+
+      const queueIndex = this.queue.findIndex(t => t.path === path);
+      if (queueIndex !== -1) this.removeFromQueue(queueIndex);
+      break;
+    }
+  }
+
+  // Adds a new file, or replaces the entry of a file whose contents changed.
+  // Returns the playlist it went into.
+  private addTrackFile(file: File, touched: Set<string>): string | null {
+    const folderName = getPlaylistName(file.webkitRelativePath);
+    if (!folderName || !file.type.startsWith('audio/')) return null;
+
+    const track = createBasicMetadata(file, folderName);
+    this.filesMap.set(track.path, file);
+    forgetMetadata(track.path);
+
+    let tracks = this.tracks.get(folderName);
+    if (!tracks) {
+      tracks = [];
+      // Keep playlists in sorted order for getFolders()
+      this.tracks = new Map([...this.tracks, [folderName, tracks] as [string, TrackMetadata[]]]
+        .sort(([a], [b]) => a.localeCompare(b)));
+    }
+    const existing = tracks.findIndex(t => t.path === track.path);
+    if (existing !== -1) {
+      tracks[existing] = track;
+    } else {
+      // Drop it into a random spot so new songs don't all play first or last
+      tracks.splice(Math.floor(Math.random() * (tracks.length + 1)), 0, track);
+    }
+    touched.add(folderName);
+    return folderName;
+  }
+
+  /** Subscribe to playlists or tracks changing on disk. Returns an unsubscribe function. */
+  public onLibraryChange(callback: () => void): () => void {
+    this.libraryChangeCallbacks.push(callback);
+    return () => {
+      this.libraryChangeCallbacks = this.libraryChangeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
   /**
    * Extracts real ID3/tag metadata for every track in the library in the
    * background. Processes 4 tracks at a time so it doesn't block playback.
@@ -141,28 +388,53 @@ class MusicLibrary {
     }
   }
 
+  // Picks the folder's on-deck track and extracts its metadata. For the default
+  // folder and preload folders the audio is decoded into the buffer pool too.
   private async preloadNextTrackInFolder(folderName: string): Promise<void> {
-    const tracks = this.tracks.get(folderName);
-    if (!tracks || tracks.length === 0) return;
+    const tracks = this.getPlaylistTracks(folderName);
+    if (tracks.length === 0) return;
 
-    const playedTracksSet = this.playedTracks.get(folderName) || new Set<string>();
-    const unplayedTracks = tracks.filter(track => !playedTracksSet.has(track.path));
-    const nextTrack = unplayedTracks.length > 0 ? unplayedTracks[0] : tracks[0];
+    // Random rather than the first: a playlist with its descendants lists its own tracks first
+    const unplayedTracks = this.getUnplayedTracks(tracks);
+    const candidates = unplayedTracks.length > 0 ? unplayedTracks : tracks;
+    const nextTrack = candidates[Math.floor(Math.random() * candidates.length)];
 
-    if (!isMetadataCached(nextTrack.path)) {
-      try {
-        const fullMetadata = await extractMetadata(nextTrack.file, folderName);
-        this.onDeckTracks.set(folderName, fullMetadata);
-      } catch (error) {
-        console.error('Error preloading metadata for next track:', error);
-      }
+    try {
+      const fullMetadata = await extractMetadata(nextTrack.file, nextTrack.folder);
+      this.onDeckTracks.set(folderName, fullMetadata);
+    } catch (error) {
+      console.error('Error preloading metadata for next track:', error);
+      return;
+    }
+
+    if (folderName === this.defaultFolder || this.preloadFolders.has(folderName)) {
+      await audioManager.preloadTrack(nextTrack.file);
+    }
+  }
+
+  // Decode the head of the queue so it starts without a gap
+  private preloadQueueHead(): void {
+    if (this.queue.length > 0) {
+      audioManager.preloadTrack(this.queue[0].file);
+    }
+  }
+
+  /**
+   * Sets the playlists (besides the default one) whose next track is kept
+   * decoded, e.g. the playlists mapped to automation triggers.
+   */
+  public setPreloadFolders(folderNames: string[]): void {
+    this.preloadFolders = new Set(folderNames.filter(name => name));
+    for (const folderName of this.preloadFolders) {
+      this.preloadNextTrackInFolder(folderName);
     }
   }
 
-  public async playRandomTrackFromFolder(folderName: string): Promise<void> {
+  // reason tells the audio manager which transition profile to use
+  public async playRandomTrackFromFolder(folderName: string, reason: TransitionReason = 'manual'): Promise<void> {
     console.log(`[MusicLibrary] Starting playback from folder: ${folderName}`);
-    const tracks = this.tracks.get(folderName);
-    if (!tracks || tracks.length === 0) {
+    const tracks = this.getPlaylistTracks(folderName);
+    if (tracks.length === 0) {
       toast({
         variant: "destructive",
         title: "No tracks available",
@@ -171,25 +443,8 @@ class MusicLibrary {
       return;
     }
 
-    const playedTracksSet = this.playedTracks.get(folderName) || new Set<string>();
-    if (playedTracksSet.size >= tracks.length) playedTracksSet.clear();
-
-    const unplayedTracks = tracks.filter(track => !playedTracksSet.has(track.path));
-    const availableTracks = unplayedTracks.length > 0 ? unplayedTracks : tracks;
-
-    const randomIndex = Math.floor(Math.random() * availableTracks.length);
-    let selectedTrack = availableTracks[randomIndex];
-
-    if (this.onDeckTracks.has(folderName) && unplayedTracks.length > 0) {
-      const preloadedTrack = this.onDeckTracks.get(folderName)!;
-      if (unplayedTracks.some(track => track.path === preloadedTrack.path)) {
-        selectedTrack = preloadedTrack;
-        this.onDeckTracks.delete(folderName);
-      }
-    }
-
-    playedTracksSet.add(selectedTrack.path);
-    this.playedTracks.set(folderName, playedTracksSet);
+    let selectedTrack = this.chooseTrackFromFolder(folderName, tracks);
+    this.takeTrackFromFolder(folderName, selectedTrack);
 
     try {
       if (!isMetadataCached(selectedTrack.path)) {
@@ -197,16 +452,16 @@ class MusicLibrary {
           title: "Loading track",
           description: `Extracting metadata for ${selectedTrack.title}...`
         });
-        selectedTrack = await extractMetadata(selectedTrack.file, folderName);
+        selectedTrack = await extractMetadata(selectedTrack.file, selectedTrack.folder);
       }
 
-      const buffer = await audioManager.loadTrack(selectedTrack.file);
-      if (selectedTrack.duration === 0) selectedTrack.duration = buffer.duration;
+      const audio = await audioManager.loadTrack(selectedTrack.file, selectedTrack);
+      if (selectedTrack.duration === 0) selectedTrack.duration = audio.duration;
 
       this.currentTrack = selectedTrack;
       this.currentFolder = folderName;
 
-      await audioManager.playTrack(buffer);
+      await audioManager.playTrack(audio, undefined, reason);
 
       for (const cb of this.trackChangeCallbacks) cb(selectedTrack);
 
@@ -223,34 +478,203 @@ class MusicLibrary {
       });
       try {
         this.preloadNextTrackInFolder(folderName);
-        setTimeout(() => this.playRandomTrackFromFolder(folderName), 0);
+        setTimeout(() => this.playRandomTrackFromFolder(folderName, reason), 0);
       } catch (e) {
         console.error('Auto-skip after error failed:', e);
       }
     }
   }
 
+  // Random unplayed track from a playlist's tracks, preferring the preloaded
+  // one. Changes nothing: the pick only counts once takeTrackFromFolder() runs.
+  private chooseTrackFromFolder(folderName: string, tracks: TrackMetadata[]): TrackMetadata {
+    const unplayedTracks = this.getUnplayedTracks(tracks);
+    // Everything has played: the pick starts a new cycle
+    const availableTracks = unplayedTracks.length > 0 ? unplayedTracks : tracks;
+
+    const preloadedTrack = this.onDeckTracks.get(folderName);
+    if (preloadedTrack && availableTracks.some(track => track.path === preloadedTrack.path)) {
+      return preloadedTrack;
+    }
+    return availableTracks[Math.floor(Math.random() * availableTracks.length)];
+  }
+
+  // Commits a pick from chooseTrackFromFolder() when it starts playing: starts
+  // a new cycle if the playlist had run out, uses up the on-deck track and
+  // marks the pick played
+  private takeTrackFromFolder(folderName: string, track: TrackMetadata): void {
+    const tracks = this.getPlaylistTracks(folderName);
+    if (this.getUnplayedTracks(tracks).length === 0) {
+      for (const folder of new Set(tracks.map(t => t.folder))) {
+        this.playedTracks.get(folder)?.clear();
+      }
+    }
+    if (this.onDeckTracks.get(folderName)?.path === track.path) {
+      this.onDeckTracks.delete(folderName);
+    }
+    this.markPlayed(track);
+  }
+
+  // History is kept per track's own folder, so a track played through a
+  // parent playlist also counts as played in its own
+  private markPlayed(track: TrackMetadata): void {
+    this.getPlayedTracks(track.folder).set(getHistoryKey(track.path), Date.now());
+    this.schedulePlayHistorySave();
+  }
+
+  private getPlayedTracks(folderName: string): Map<string, number> {
+    let played = this.playedTracks.get(folderName);
+    if (!played) {
+      played = new Map();
+      this.playedTracks.set(folderName, played);
+    }
+    return played;
+  }
+
+  private getUnplayedTracks(tracks: TrackMetadata[]): TrackMetadata[] {
+    return tracks.filter(track => !this.playedTracks.get(track.folder)?.has(getHistoryKey(track.path)));
+  }
+
+  // ─── Play history ──────────────────────────────────────────────────────────
+
+  // Adds history entries, keeping the later time where both sides have a
+  // track. Returns how many entries were new or newer; throws on a malformed document.
+  private mergePlayHistory(history: StoredPlayHistory): number {
+    if (history?.version !== 1 || typeof history.playlists !== 'object' || history.playlists === null) {
+      throw new Error('Not a play history file');
+    }
+    let merged = 0;
+    for (const [folderName, entries] of Object.entries(history.playlists)) {
+      if (typeof entries !== 'object' || entries === null) continue;
+      const played = this.getPlayedTracks(folderName);
+      for (const [key, playedAt] of Object.entries(entries)) {
+        if (typeof playedAt !== 'number') continue;
+        if ((played.get(key) ?? -Infinity) < playedAt) {
+          played.set(key, playedAt);
+          merged++;
+        }
+      }
+    }
+    return merged;
+  }
+
+  private toStoredPlayHistory(): StoredPlayHistory {
+    const playlists: StoredPlayHistory['playlists'] = {};
+    for (const [folderName, played] of this.playedTracks) {
+      if (played.size > 0) playlists[folderName] = Object.fromEntries(played);
+    }
+    return { version: 1, playlists };
+  }
+
+  private schedulePlayHistorySave(): void {
+    if (this.playHistorySaveTimeout) clearTimeout(this.playHistorySaveTimeout);
+    this.playHistorySaveTimeout = setTimeout(() => {
+      this.playHistorySaveTimeout = null;
+      saveDocument(PLAY_HISTORY, this.toStoredPlayHistory());
+    }, PLAY_HISTORY_SAVE_DELAY_MS);
+    this.notifyHistoryChange();
+  }
+
+  /** The play history as a JSON document, for moving it to another machine. */
+  public exportPlayHistory(): string {
+    return JSON.stringify({ ...this.toStoredPlayHistory(), exportedAt: new Date().toISOString() }, null, 2);
+  }
+
+  /**
+   * Merges an exported play history into this one, so this machine continues
+   * the no-repeat cycle. Returns the number of entries taken over; throws if
+   * the text is not a play history file.
+   */
+  public importPlayHistory(text: string): number {
+    const merged = this.mergePlayHistory(JSON.parse(text) as StoredPlayHistory);
+    if (merged > 0) this.schedulePlayHistorySave();
+    console.log(`[MusicLibrary] Imported ${merged} play history entries`);
+    return merged;
+  }
+
+  /** Subscribe to play history changes. Returns an unsubscribe function. */
+  public onHistoryChange(callback: () => void): () => void {
+    this.historyChangeCallbacks.push(callback);
+    return () => {
+      this.historyChangeCallbacks = this.historyChangeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private notifyHistoryChange(): void {
+    for (const cb of this.historyChangeCallbacks) cb();
+  }
+
+  // Picks and decodes what playNextTrack('natural') would play, without
+  // touching the queue, play history or on-deck track until it is actually
+  // heard, so a cancelled transition leaves no trace.
+  private async prepareNextTrack(): Promise<PreparedTrack | null> {
+    const queued = this.queue[0];
+    const folderName = queued ? queued.folder : this.defaultFolder;
+    if (!folderName) return null;
+
+    const tracks = this.getPlaylistTracks(folderName);
+    if (!queued && tracks.length === 0) return null;
+
+    let selectedTrack = queued ?? this.chooseTrackFromFolder(folderName, tracks);
+    try {
+      if (!isMetadataCached(selectedTrack.path)) {
+        selectedTrack = await extractMetadata(selectedTrack.file, selectedTrack.folder);
+      }
+      const audio = await audioManager.loadTrack(selectedTrack.file, selectedTrack);
+      if (selectedTrack.duration === 0) selectedTrack.duration = audio.duration;
+
+      return {
+        track: audio,
+        reason: queued ? 'queue' : 'natural',
+        onStart: () => {
+          // The queue may have been edited while this track was lined up
+          if (queued && this.queue[0] === queued) {
+            this.queue.shift();
+            this.notifyQueueChange();
+          }
+          if (queued) this.markPlayed(selectedTrack);
+          else this.takeTrackFromFolder(folderName, selectedTrack);
+          this.currentTrack = selectedTrack;
+          this.currentFolder = folderName;
+          for (const cb of this.trackChangeCallbacks) cb(selectedTrack);
+          console.log(`Now playing from folder: ${folderName}`, selectedTrack);
+
+          if (this.queue.length > 0) {
+            this.preloadQueueHead();
+          } else if (this.defaultFolder) {
+            this.preloadNextTrackInFolder(this.defaultFolder);
+          }
+        },
+        onCancel: () => {}
+      };
+    } catch (error) {
+      // Leave it to the end-of-track fallback, which reports the error
+      console.error('Error preparing next track:', error);
+      return null;
+    }
+  }
+
   // Play a specific track (used for queue playback)
-  private async playSpecificTrack(track: TrackMetadata): Promise<void> {
+  private async playSpecificTrack(track: TrackMetadata, reason: TransitionReason): Promise<void> {
     try {
       let selectedTrack = track;
       if (!isMetadataCached(selectedTrack.path)) {
         selectedTrack = await extractMetadata(selectedTrack.file, selectedTrack.folder);
       }
 
-      const buffer = await audioManager.loadTrack(selectedTrack.file);
-      if (selectedTrack.duration === 0) selectedTrack.duration = buffer.duration;
+      const audio = await audioManager.loadTrack(selectedTrack.file, selectedTrack);
+      if (selectedTrack.duration === 0) selectedTrack.duration = audio.duration;
 
       this.currentTrack = selectedTrack;
       this.currentFolder = selectedTrack.folder;
 
-      await audioManager.playTrack(buffer);
+      await audioManager.playTrack(audio, undefined, reason);
 
       for (const cb of this.trackChangeCallbacks) cb(selectedTrack);
 
       // Preload next queued track, or fall back to default folder
       if (this.queue.length > 0) {
-        this.preloadNextTrackInFolder(this.queue[0].folder);
+        this.preloadQueueHead();
       } else if (this.defaultFolder) {
         this.preloadNextTrackInFolder(this.defaultFolder);
       }
@@ -261,18 +685,19 @@ class MusicLibrary {
         title: "Playback Error",
         description: `Failed to play: ${track.title}`
       });
-      setTimeout(() => this.playNextTrack(), 0);
+      setTimeout(() => this.playNextTrack(reason), 0);
     }
   }
 
-  public async playNextTrack(): Promise<void> {
+  // 'natural' when the current track ran out, 'manual' for the skip button
+  public async playNextTrack(reason: TransitionReason = 'manual'): Promise<void> {
     // Drain the queue first; fall back to default folder when empty
     if (this.queue.length > 0) {
       const nextTrack = this.queue.shift()!;
       this.notifyQueueChange();
-      await this.playSpecificTrack(nextTrack);
+      await this.playSpecificTrack(nextTrack, reason === 'natural' ? 'queue' : reason);
     } else if (this.defaultFolder) {
-      await this.playRandomTrackFromFolder(this.defaultFolder);
+      await this.playRandomTrackFromFolder(this.defaultFolder, reason);
     } else {
       toast({
         variant: "destructive",
@@ -282,6 +707,38 @@ class MusicLibrary {
     }
   }
 
+  // ─── Dead air ──────────────────────────────────────────────────────────────
+
+  // The output went quiet while playing: log it, alert, and move on
+  private handleDeadAir(silentSeconds: number): void {
+    const track = this.currentTrack;
+    const incident: DeadAirIncident = {
+      time: new Date().toISOString(),
+      track: track ? `${track.artist} - ${track.title}` : null,
+      folder: this.currentFolder,
+      silentSeconds: Math.round(silentSeconds * 10) / 10,
+    };
+    console.warn('[MusicLibrary] Dead air incident', incident);
+
+    this.deadAirIncidents = [...this.deadAirIncidents, incident].slice(-MAX_DEAD_AIR_INCIDENTS);
+    saveDocument(DEAD_AIR_LOG, this.deadAirIncidents);
+    for (const cb of this.deadAirCallbacks) cb(incident);
+
+    this.playNextTrack('manual');
+  }
+
+  public getDeadAirIncidents(): DeadAirIncident[] {
+    return [...this.deadAirIncidents];
+  }
+
+  /** Subscribe to dead-air incidents. Returns an unsubscribe function. */
+  public onDeadAir(callback: (incident: DeadAirIncident) => void): () => void {
+    this.deadAirCallbacks.push(callback);
+    return () => {
+      this.deadAirCallbacks = this.deadAirCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
   // ─── Playlist / folder helpers ────────────────────────────────────────────
 
   public getFolders(): string[] {
@@ -289,20 +746,149 @@ class MusicLibrary {
     return Array.from(this.tracks.keys());
   }
 
-  // Strip leading numbering like "01 - " or "3 - " from folder names for display
+  // Strip leading numbering like "01 - " or "3 - " from each folder name for display
   public getDisplayName(folderName: string): string {
-    return folderName.replace(/^\d+\s*[-–]\s*/, '');
+    return folderName.split('/').map(stripNumbering).join(' / ');
+  }
+
+  // The folder a playlist's files were picked from: the first segment of its
+  // (or, for a group, its descendants') track paths
+  private getRootName(folderName: string): string | null {
+    for (const [name, tracks] of this.tracks) {
+      if ((name === folderName || name.startsWith(folderName + '/')) && tracks.length > 0) {
+        return tracks[0].path.split('/')[0];
+      }
+    }
+    return null;
+  }
+
+  // Whether a playlist is made of the files directly inside a picked folder
+  private isRootPlaylist(folderName: string): boolean {
+    const track = this.tracks.get(folderName)?.[0];
+    return track !== undefined && track.path.split('/').length === 2;
+  }
+
+  // The playlist or group a folder sits under, or null at the top level.
+  // First-level subfolders sit under the picked folder when it holds music itself.
+  private getParentFolder(folderName: string): string | null {
+    const slash = folderName.lastIndexOf('/');
+    if (slash !== -1) return folderName.slice(0, slash);
+    const rootName = this.getRootName(folderName);
+    return rootName !== null && rootName !== folderName && this.isRootPlaylist(rootName) ? rootName : null;
+  }
+
+  private isUnderFolder(folderName: string, ancestor: string): boolean {
+    for (let parent = this.getParentFolder(folderName); parent !== null; parent = this.getParentFolder(parent)) {
+      if (parent === ancestor) return true;
+    }
+    return false;
+  }
+
+  // The tracks a playlist plays from: its own, plus those of every playlist
+  // below it when it includes its descendants
+  private getPlaylistTracks(folderName: string): TrackMetadata[] {
+    const own = this.tracks.get(folderName) ?? [];
+    if (!this.includeDescendants.has(folderName)) return own;
+    const tracks = [...own];
+    for (const [name, descendantTracks] of this.tracks) {
+      if (this.isUnderFolder(name, folderName)) tracks.push(...descendantTracks);
+    }
+    return tracks;
+  }
+
+  /** The playlists as a folder tree, sorted by name at every level. */
+  public getFolderTree(): PlaylistNode[] {
+    const topLevel: PlaylistNode[] = [];
+    const nodes = new Map<string, PlaylistNode>();
+    const getNode = (path: string): PlaylistNode => {
+      let node = nodes.get(path);
+      if (!node) {
+        node = { path, name: path.slice(path.lastIndexOf('/') + 1), isPlaylist: this.tracks.has(path), children: [] };
+        nodes.set(path, node);
+        const parent = this.getParentFolder(path);
+        (parent === null ? topLevel : getNode(parent).children).push(node);
+      }
+      return node;
+    };
+    for (const folderName of this.tracks.keys()) getNode(folderName);
+
+    const sortNodes = (list: PlaylistNode[]) => {
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      for (const node of list) sortNodes(node.children);
+    };
+    sortNodes(topLevel);
+    return topLevel;
+  }
+
+  public hasDescendants(folderName: string): boolean {
+    return this.getFolders().some(name => this.isUnderFolder(name, folderName));
+  }
+
+  public getIncludeDescendants(folderName: string): boolean {
+    return this.includeDescendants.has(folderName);
+  }
+
+  // Lets a parent playlist also play the tracks of every playlist below it
+  public setIncludeDescendants(folderName: string, include: boolean): void {
+    if (include) this.includeDescendants.add(folderName);
+    else this.includeDescendants.delete(folderName);
+    try {
+      localStorage.setItem(INCLUDE_DESCENDANTS_STORAGE_KEY, JSON.stringify([...this.includeDescendants]));
+    } catch {
+      // ignore quota errors
+    }
+    this.onDeckTracks.delete(folderName);
+    this.preloadNextTrackInFolder(folderName);
+    for (const cb of this.libraryChangeCallbacks) cb();
   }
 
   public getTrackCount(folderName: string): number {
-    return this.tracks.get(folderName)?.length ?? 0;
+    return this.getPlaylistTracks(folderName).length;
   }
 
-  // Returns the number of tracks in a folder not yet played this session cycle
+  // Returns the number of tracks in a playlist not yet played this cycle
   public getUnplayedCount(folderName: string): number {
-    const total = this.tracks.get(folderName)?.length ?? 0;
-    const played = this.playedTracks.get(folderName)?.size ?? 0;
-    return Math.max(0, total - played);
+    return this.getUnplayedTracks(this.getPlaylistTracks(folderName)).length;
+  }
+
+  // Tracks a playlist plays from, sorted by title
+  public getTracks(folderName: string): TrackMetadata[] {
+    return [...this.getPlaylistTracks(folderName)].sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  // When a track last played in the current cycle, or null if it hasn't
+  public getLastPlayed(track: TrackMetadata): number | null {
+    return this.playedTracks.get(track.folder)?.get(getHistoryKey(track.path)) ?? null;
+  }
+
+  // Starts a new no-repeat cycle, so every track in the playlist can play again
+  public resetPlayHistory(folderName: string): void {
+    this.playedTracks.delete(folderName);
+    for (const track of this.getPlaylistTracks(folderName)) this.playedTracks.delete(track.folder);
+    // Re-pick the on-deck track from the whole playlist
+    this.onDeckTracks.delete(folderName);
+    this.preloadNextTrackInFolder(folderName);
+    this.schedulePlayHistorySave();
+  }
+
+  // Marks tracks as played now, or returns them to the unplayed pool
+  public setTracksPlayed(tracks: TrackMetadata[], played: boolean): void {
+    const playedAt = Date.now();
+    for (const track of tracks) {
+      const history = this.getPlayedTracks(track.folder);
+      if (played) history.set(getHistoryKey(track.path), playedAt);
+      else history.delete(getHistoryKey(track.path));
+    }
+    // On-deck tracks should come from what is still unplayed
+    if (played) {
+      for (const [folderName, onDeck] of this.onDeckTracks) {
+        if (tracks.some(track => track.path === onDeck.path)) {
+          this.onDeckTracks.delete(folderName);
+          this.preloadNextTrackInFolder(folderName);
+        }
+      }
+    }
+    this.schedulePlayHistorySave();
   }
 
   // ─── Search ────────────────────────────────────────────────────────────────
@@ -333,12 +919,14 @@ class MusicLibrary {
   public addToQueue(track: TrackMetadata): void {
     this.queue.push(track);
     this.notifyQueueChange();
+    if (this.queue.length === 1) this.preloadQueueHead();
   }
 
   public removeFromQueue(index: number): void {
     if (index >= 0 && index < this.queue.length) {
       this.queue.splice(index, 1);
       this.notifyQueueChange();
+      if (index === 0) this.preloadQueueHead();
     }
   }
 
@@ -364,6 +952,7 @@ class MusicLibrary {
   public setDefaultFolder(folderName: string): void {
     if (this.tracks.has(folderName)) {
       this.defaultFolder = folderName;
+      this.preloadNextTrackInFolder(folderName);
       toast({
         title: "Default folder updated",
         description: `${folderName} is now your default playlist.`
@@ -394,8 +983,8 @@ class MusicLibrary {
   }
 
   public clearLibrary(): void {
+    // Play history is kept: it is keyed by playlist and applies again when the music is reloaded
     this.tracks.clear();
-    this.playedTracks.clear();
     this.defaultFolder = null;
     this.currentTrack = null;
     this.currentFolder = null;
@@ -403,7 +992,11 @@ class MusicLibrary {
     this.filesMap.clear();
     this.queue = [];
     this.notifyQueueChange();
+    for (const root of this.libraryRoots) forgetLibraryFolder(root);
+    this.libraryRoots = [];
+    if (isLibraryAvailable()) this.saveLibrary();
     clearMetadataCache();
+    audioManager.clearBufferPool();
   }
 }
 
@@ -0,0 +1,284 @@
+import { toast } from '@/hooks/use-toast';
+import audioManager from '../audioContext';
+import musicLibrary from './musicLibrary';
+
+// Chunks are flushed this often, so a crash loses at most this much audio
+const CHUNK_MS = 1000;
+const BITS_PER_SECOND = 256000;
+
+// Preferred recording formats, best first
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm'];
+
+/** One line of the sidecar cue list: a track that started during the recording. */
+export interface RecordingCue {
+  offset: number; // seconds into the recording
+  time: string;   // ISO wall-clock timestamp
+  artist: string;
+  title: string;
+  folder: string;
+}
+
+function getRecordingApi() {
+  try { return window.electronAPI?.recording ?? null; }
+  catch { return null; }
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Local time, safe for file names: 2024-03-16_14-05-09
+function formatFileTimestamp(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_` +
+    `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+// Recording position as H:MM:SS.mmm
+function formatOffset(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCueList(cues: RecordingCue[]): string {
+  const lines = ['offset,wall_clock,artist,title,playlist'];
+  for (const cue of cues) {
+    lines.push([formatOffset(cue.offset), cue.time, cue.artist, cue.title, cue.folder].map(csvField).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
+
+/**
+ * Records the program output (the mix exactly as it leaves the app) with a
+ * cue list of which track started when. In Electron the audio is streamed to
+ * timestamped files in a chosen folder; in the browser both files are
+ * downloaded when the recording stops.
+ */
+class ProgramRecorder {
+  private static instance: ProgramRecorder;
+  private recorder: MediaRecorder | null = null;
+  private folder: string | null = null;
+  private baseName = '';
+  private extension = 'webm';
+  private startedAt: Date | null = null;
+  private startedAtPerf = 0;
+  private cues: RecordingCue[] = [];
+  // Browser only: the recording is kept in memory until it is downloaded
+  private chunks: Blob[] = [];
+  // Electron only: chunk and cue writes, in order
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private writeFailed = false;
+  private unsubscribeTrackChange: (() => void) | null = null;
+  private changeCallbacks: Array<() => void> = [];
+
+  // The main process remembers the folder; it is the only one it writes to
+  private folderLoaded: Promise<void> = Promise.resolve();
+
+  private constructor() {
+    const api = getRecordingApi();
+    if (api) {
+      this.folderLoaded = api.getFolder()
+        .then(folder => {
+          this.folder = folder;
+          this.notifyChange();
+        })
+        .catch(error => console.warn('[ProgramRecorder] Could not read the recording folder', error));
+    }
+  }
+
+  public static getInstance(): ProgramRecorder {
+    if (!ProgramRecorder.instance) {
+      ProgramRecorder.instance = new ProgramRecorder();
+    }
+    return ProgramRecorder.instance;
+  }
+
+  public isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  public getStartedAt(): Date | null {
+    return this.startedAt;
+  }
+
+  // Electron only: where recordings are written
+  public getFolder(): string | null {
+    return this.folder;
+  }
+
+  // Electron only: asks for a new recording folder. Resolves to null if cancelled.
+  public async chooseFolder(): Promise<string | null> {
+    const api = getRecordingApi();
+    if (!api) return null;
+    const folder = await api.chooseFolder();
+    if (!folder) return null;
+
+    this.folder = folder;
+    this.notifyChange();
+    return folder;
+  }
+
+  // Starts recording; resolves to false if it could not start
+  public async start(): Promise<boolean> {
+    if (this.recorder) return true;
+
+    const api = getRecordingApi();
+    await this.folderLoaded;
+    if (api && !this.folder && !(await this.chooseFolder())) return false;
+
+    const stream = audioManager.getRecordingStream();
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!stream || !mimeType) {
+      toast({
+        variant: "destructive",
+        title: "Recording unavailable",
+        description: "This system cannot record the audio output."
+      });
+      return false;
+    }
+
+    this.startedAt = new Date();
+    this.startedAtPerf = performance.now();
+    this.baseName = `autodj-${formatFileTimestamp(this.startedAt)}`;
+    this.extension = mimeType.startsWith('audio/ogg') ? 'ogg' : 'webm';
+    this.cues = [];
+    this.chunks = [];
+    this.pendingWrite = Promise.resolve();
+    this.writeFailed = false;
+
+    const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: BITS_PER_SECOND });
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) this.handleChunk(event.data);
+    };
+    recorder.start(CHUNK_MS);
+    this.recorder = recorder;
+
+    // The track already on air is the first cue
+    const current = musicLibrary.getCurrentTrack();
+    if (current && audioManager.isPlaying()) this.addCue(current);
+    this.unsubscribeTrackChange = musicLibrary.onTrackChange(track => {
+      if (track) this.addCue(track);
+    });
+
+    console.log(`[ProgramRecorder] Recording started: ${this.baseName}`);
+    this.notifyChange();
+    return true;
+  }
+
+  public async stop(): Promise<void> {
+    const recorder = this.recorder;
+    if (!recorder) return;
+
+    this.recorder = null;
+    this.unsubscribeTrackChange?.();
+    this.unsubscribeTrackChange = null;
+
+    // The final chunk arrives before the stop event
+    await new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+      recorder.stop();
+    });
+    audioManager.releaseRecordingStream();
+
+    const api = getRecordingApi();
+    const audioName = `${this.baseName}.${this.extension}`;
+    const cueName = `${this.baseName}.cues.csv`;
+    if (api) {
+      this.writeCueList();
+      await this.pendingWrite;
+      if (!this.writeFailed) {
+        toast({
+          title: "Recording saved",
+          description: `${audioName} and its cue list were saved to ${this.folder}.`
+        });
+      }
+    } else {
+      downloadBlob(new Blob(this.chunks, { type: recorder.mimeType }), audioName);
+      downloadBlob(new Blob([formatCueList(this.cues)], { type: 'text/csv' }), cueName);
+      this.chunks = [];
+    }
+
+    console.log(`[ProgramRecorder] Recording stopped: ${this.baseName}, ${this.cues.length} cues`);
+    this.startedAt = null;
+    this.notifyChange();
+  }
+
+  public onChange(callback: () => void): () => void {
+    this.changeCallbacks.push(callback);
+    return () => {
+      this.changeCallbacks = this.changeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private handleChunk(chunk: Blob): void {
+    const api = getRecordingApi();
+    if (!api || !this.folder) {
+      this.chunks.push(chunk);
+      return;
+    }
+    const fileName = `${this.baseName}.${this.extension}`;
+    this.queueWrite(async () => {
+      const data = new Uint8Array(await chunk.arrayBuffer());
+      await api.append(fileName, data);
+    });
+  }
+
+  private addCue(track: { artist: string; title: string; folder: string }): void {
+    this.cues.push({
+      offset: (performance.now() - this.startedAtPerf) / 1000,
+      time: new Date().toISOString(),
+      artist: track.artist,
+      title: track.title,
+      folder: track.folder,
+    });
+    // Keep the cue list on disk current in case the app goes down mid-set
+    if (getRecordingApi()) this.writeCueList();
+  }
+
+  private writeCueList(): void {
+    const api = getRecordingApi();
+    if (!api || !this.folder) return;
+    const text = formatCueList(this.cues);
+    const fileName = `${this.baseName}.cues.csv`;
+    this.queueWrite(() => api.write(fileName, text));
+  }
+
+  private queueWrite(write: () => Promise<void>): void {
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      if (this.writeFailed) return;
+      try {
+        await write();
+      } catch (err) {
+        this.writeFailed = true;
+        console.error('[ProgramRecorder] Failed to write recording:', err);
+        toast({
+          variant: "destructive",
+          title: "Recording failed",
+          description: `Could not write to ${this.folder}. Check the folder and free disk space.`
+        });
+        void this.stop();
+      }
+    });
+  }
+
+  private notifyChange(): void {
+    for (const cb of this.changeCallbacks) cb();
+  }
+}
+
+export default ProgramRecorder.getInstance();
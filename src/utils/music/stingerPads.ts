@@ -0,0 +1,249 @@
+import { toast } from '@/hooks/use-toast';
+import audioManager from '../audioContext';
+import { chooseLibraryFolder, isLibraryAvailable, scanStingerFolder } from '../fileSource';
+
+// One pad per number-row key: 1–9, then 0 for the tenth
+export const PAD_COUNT = 10;
+
+const STORAGE_KEY = 'stinger-pads';
+
+interface StoredPads {
+  pads: Array<string | null>;
+  volume: number;
+  autoDuck: boolean;
+  folder?: string; // Electron only: the clip folder, reloaded on startup
+}
+
+// Clip name shown on a pad and used by /api/stinger/:name — the file name without extension
+function getClipName(file: File): string {
+  return file.name.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Short sound effects (airhorns, countdowns, stingers) assigned to a grid of
+ * pads and played on the audio manager's stinger bus over the music.
+ */
+class StingerPads {
+  private static instance: StingerPads;
+  private clips: Map<string, File> = new Map();
+  private buffers: Map<string, AudioBuffer> = new Map();
+  private pads: Array<string | null> = new Array(PAD_COUNT).fill(null);
+  private folderName: string | null = null;
+  // Electron only: path of the clip folder
+  private folderPath: string | null = null;
+  private changeCallbacks: Array<() => void> = [];
+
+  private constructor() {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const { pads, volume, autoDuck, folder } = JSON.parse(saved) as Partial<StoredPads>;
+        if (Array.isArray(pads)) {
+          this.pads = this.pads.map((_, i) => (typeof pads[i] === 'string' ? pads[i] : null));
+        }
+        if (typeof volume === 'number') audioManager.setStingerVolume(volume);
+        if (typeof autoDuck === 'boolean') audioManager.setStingerAutoDuck(autoDuck);
+        if (typeof folder === 'string') this.folderPath = folder;
+      }
+    } catch {
+      // ignore parse errors
+    }
+    if (this.folderPath && isLibraryAvailable()) this.restoreFolder(this.folderPath);
+  }
+
+  public static getInstance(): StingerPads {
+    if (!StingerPads.instance) {
+      StingerPads.instance = new StingerPads();
+    }
+    return StingerPads.instance;
+  }
+
+  // Replaces the clip set with the audio files of a folder picked in the browser
+  public async loadFolder(files: FileList): Promise<void> {
+    this.folderPath = null;
+    this.loadFiles(files);
+  }
+
+  // Electron only: picks the clip folder with the native dialog. It is
+  // remembered and reloaded on the next launch.
+  public async chooseFolder(): Promise<void> {
+    const folder = await chooseLibraryFolder();
+    if (!folder) return;
+    // The main process serves one sound effects folder; scanning replaces the previous one
+    const files = await scanStingerFolder(folder);
+    const previous = this.folderPath;
+    this.folderPath = folder;
+    if (files && this.loadFiles(files)) return;
+    // Nothing usable there: keep serving the clips that stay loaded
+    this.folderPath = previous;
+    if (previous) await scanStingerFolder(previous);
+  }
+
+  private async restoreFolder(folder: string): Promise<void> {
+    const files = await scanStingerFolder(folder);
+    if (files && files.length > 0) {
+      this.loadFiles(files, false);
+      return;
+    }
+    toast({
+      variant: "destructive",
+      title: "Sound effects not loaded",
+      description: `${folder} is no longer available. Choose the sound effects folder again.`
+    });
+  }
+
+  // Returns false, keeping the current clips, if there are no audio files
+  private loadFiles(files: ArrayLike<File>, announce = true): boolean {
+    const clips = new Map<string, File>();
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (!file.type.startsWith('audio/')) continue;
+      clips.set(getClipName(file), file);
+    }
+    if (clips.size === 0) {
+      toast({
+        variant: "destructive",
+        title: "No sound effects found",
+        description: "The selected folder does not contain any audio files."
+      });
+      return false;
+    }
+
+    this.clips = clips;
+    this.buffers.clear();
+    this.folderName = files[0].webkitRelativePath.split('/')[0] || null;
+
+    // First load (or none of the saved clips exist here): fill pads in name order
+    if (!this.pads.some(name => name && clips.has(name))) {
+      const names = this.getClipNames();
+      this.pads = this.pads.map((_, i) => names[i] ?? null);
+    }
+    this.save();
+    this.notifyChange();
+
+    if (announce) {
+      toast({
+        title: "Sound effects loaded",
+        description: `${clips.size} clips from ${this.folderName ?? 'folder'}`
+      });
+    }
+
+    // Decode assigned clips up front so the first press is instant
+    for (const name of this.pads) {
+      if (name) this.getBuffer(name).catch(() => { /* reported when triggered */ });
+    }
+    return true;
+  }
+
+  public getFolderName(): string | null {
+    return this.folderName;
+  }
+
+  public hasClips(): boolean {
+    return this.clips.size > 0;
+  }
+
+  public getClipNames(): string[] {
+    return [...this.clips.keys()].sort((a, b) => a.localeCompare(b));
+  }
+
+  public getPads(): Array<string | null> {
+    return [...this.pads];
+  }
+
+  public hasClip(name: string): boolean {
+    return this.clips.has(name);
+  }
+
+  public assignPad(index: number, clipName: string | null): void {
+    if (index < 0 || index >= PAD_COUNT) return;
+    this.pads[index] = clipName;
+    this.save();
+    this.notifyChange();
+    if (clipName) this.getBuffer(clipName).catch(() => { /* reported when triggered */ });
+  }
+
+  public async triggerPad(index: number): Promise<boolean> {
+    const name = this.pads[index];
+    if (!name || !this.clips.has(name)) return false;
+    return this.play(name);
+  }
+
+  // Accepts a clip name (case-insensitive) or a pad number 1–10
+  public async triggerByName(name: string): Promise<boolean> {
+    const padNumber = Number(name);
+    if (Number.isInteger(padNumber) && padNumber >= 1 && padNumber <= PAD_COUNT) {
+      return this.triggerPad(padNumber - 1);
+    }
+    const wanted = name.toLowerCase();
+    const match = [...this.clips.keys()].find(clip => clip.toLowerCase() === wanted);
+    return match ? this.play(match) : false;
+  }
+
+  public stopAll(): void {
+    audioManager.stopStingers();
+  }
+
+  public setVolume(volume: number): void {
+    audioManager.setStingerVolume(volume);
+    this.save();
+  }
+
+  public setAutoDuck(enabled: boolean): void {
+    audioManager.setStingerAutoDuck(enabled);
+    this.save();
+  }
+
+  /** Subscribe to clip and pad changes. Returns an unsubscribe function. */
+  public onChange(callback: () => void): () => void {
+    this.changeCallbacks.push(callback);
+    return () => {
+      this.changeCallbacks = this.changeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private notifyChange(): void {
+    for (const cb of this.changeCallbacks) cb();
+  }
+
+  private async play(name: string): Promise<boolean> {
+    try {
+      await audioManager.playStinger(await this.getBuffer(name));
+      return true;
+    } catch (error) {
+      console.error(`[StingerPads] Failed to play ${name}:`, error);
+      toast({
+        variant: "destructive",
+        title: "Sound effect failed",
+        description: `Could not play ${name}`
+      });
+      return false;
+    }
+  }
+
+  private async getBuffer(name: string): Promise<AudioBuffer> {
+    const cached = this.buffers.get(name);
+    if (cached) return cached;
+    const file = this.clips.get(name);
+    if (!file) throw new Error(`Unknown clip: ${name}`);
+    const buffer = await audioManager.decodeClip(file);
+    this.buffers.set(name, buffer);
+    return buffer;
+  }
+
+  private save(): void {
+    const stored: StoredPads = {
+      pads: this.pads,
+      volume: audioManager.getStingerVolume(),
+      autoDuck: audioManager.isStingerAutoDuck(),
+      folder: this.folderPath ?? undefined,
+    };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch {
+      // ignore quota errors
+    }
+  }
+}
+
+export default StingerPads.getInstance();
@@ -7,4 +7,25 @@ export interface TrackMetadata {
   path: string;
   folder: string;
   file: File;
+  // Loudness tags (ReplayGain, R128 or iTunNORM) in ReplayGain 2.0 terms, if the file has any
+  trackGain?: number; // dB
+  albumGain?: number; // dB
+  trackPeak?: number; // linear, 1.0 = full scale
+  albumPeak?: number;
+}
+
+/** A stretch of unexpected silence the watchdog recovered from. */
+export interface DeadAirIncident {
+  time: string;          // ISO timestamp the incident was raised
+  track: string | null;  // "Artist - Title" that was supposed to be playing
+  folder: string | null;
+  silentSeconds: number;
+}
+
+/** A folder in the playlist tree. Folders holding audio are playlists; the rest are groups. */
+export interface PlaylistNode {
+  path: string;          // playlist key, e.g. "Pit/Hype"
+  name: string;          // last path segment
+  isPlaylist: boolean;
+  children: PlaylistNode[];
 }
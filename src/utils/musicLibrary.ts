@@ -1,4 +1,4 @@
 
 import musicLibrary from './music/musicLibrary';
-export type { TrackMetadata } from './music/types';
+export type { TrackMetadata, DeadAirIncident, PlaylistNode } from './music/types';
 export default musicLibrary;
@@ -0,0 +1,76 @@
+// Small key → JSON document store that survives app restarts.
+//
+// In the Electron build each document is a JSON file in the app's userData
+// folder (written by the main process). In the browser build documents live
+// in a single IndexedDB object store.
+
+const DB_NAME = 'first-autodj';
+const DB_VERSION = 1;
+const STORE_NAME = 'documents';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getElectronStore() {
+  try { return window.electronAPI?.store ?? null; }
+  catch { return null; }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Loads a stored document, or null if it does not exist or cannot be read. */
+export async function loadDocument<T>(name: string): Promise<T | null> {
+  try {
+    const electronStore = getElectronStore();
+    if (electronStore) {
+      return (await electronStore.load(name)) as T | null;
+    }
+
+    const db = await openDatabase();
+    return await new Promise<T | null>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(name);
+      request.onsuccess = () => resolve((request.result as T) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.warn(`[Store] Failed to load "${name}"`, error);
+    return null;
+  }
+}
+
+/** Replaces a stored document. Failures are logged, never thrown. */
+export async function saveDocument<T>(name: string, data: T): Promise<void> {
+  try {
+    const electronStore = getElectronStore();
+    if (electronStore) {
+      await electronStore.save(name, data);
+      return;
+    }
+
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(data, name);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.warn(`[Store] Failed to save "${name}"`, error);
+  }
+}